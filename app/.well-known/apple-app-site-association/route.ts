@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVerifiedDomainByHostname } from "@/data/custom-domains";
+import { getAppHostAppleAppSiteAssociation } from "@/lib/app-links";
+import { getCustomDomainHost } from "@/lib/custom-domains";
+
+/**
+ * GET handler serving the apple-app-site-association that lets iOS apps claim this host's links:
+ * the domain owner's file on custom domains, APPLE_APP_SITE_ASSOCIATION on the app's own host
+ * @param request - The incoming request
+ */
+export async function GET(request: NextRequest) {
+  const customDomain = getCustomDomainHost(request.headers.get("host"));
+  const association = customDomain
+    ? (await getVerifiedDomainByHostname(customDomain))?.appleAppSiteAssociation
+    : getAppHostAppleAppSiteAssociation();
+
+  if (!association) {
+    return new NextResponse(null, { status: 404 });
+  }
+  return NextResponse.json(association, {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
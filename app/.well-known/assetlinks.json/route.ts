@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVerifiedDomainByHostname } from "@/data/custom-domains";
+import { getAppHostAndroidAssetLinks } from "@/lib/app-links";
+import { getCustomDomainHost } from "@/lib/custom-domains";
+
+/**
+ * GET handler serving the Digital Asset Links that let Android apps claim this host's links:
+ * the domain owner's statements on custom domains, ANDROID_ASSET_LINKS on the app's own host
+ * @param request - The incoming request
+ */
+export async function GET(request: NextRequest) {
+  const customDomain = getCustomDomainHost(request.headers.get("host"));
+  const assetLinks = customDomain
+    ? (await getVerifiedDomainByHostname(customDomain))?.androidAssetLinks
+    : getAppHostAndroidAssetLinks();
+
+  if (!assetLinks) {
+    return new NextResponse(null, { status: 404 });
+  }
+  return NextResponse.json(assetLinks, {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
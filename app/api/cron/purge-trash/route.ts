@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { purgeTrashedLinks } from "@/data/links";
+import { getPurgeCutoff } from "@/lib/trash";
+
+/**
+ * GET handler permanently deleting links that have been in the trash longer than the retention period
+ * @param request - The incoming request, authorised with the CRON_SECRET bearer token
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  // Vercel Cron sends CRON_SECRET as a bearer token
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const purged = await purgeTrashedLinks(getPurgeCutoff());
+  return NextResponse.json({ purged });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { claimExpiredLinkNotifications } from "@/data/links";
+import { dispatchWebhookEvent, processWebhookDeliveries } from "@/data/webhooks";
+import { linkEventData } from "@/lib/webhooks";
+import { linkOwnerId } from "@/lib/workspaces";
+
+const EXPIRED_LINK_BATCH_SIZE = 100;
+
+/**
+ * GET handler retrying webhook deliveries that are due and reporting links that expired unvisited
+ * @param request - The incoming request, authorised with the CRON_SECRET bearer token
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  // Vercel Cron sends CRON_SECRET as a bearer token
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  // Links that reach their expiry date without another visit are only noticed here
+  const expiredLinks = await claimExpiredLinkNotifications(EXPIRED_LINK_BATCH_SIZE);
+  for (const link of expiredLinks) {
+    await dispatchWebhookEvent(linkOwnerId(link), "link.expired", linkEventData(link));
+  }
+
+  const deliveries = await processWebhookDeliveries();
+  return NextResponse.json({
+    expired: expiredLinks.length,
+    attempted: deliveries.length,
+    succeeded: deliveries.filter((delivery) => delivery.status === "succeeded").length,
+  });
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { editLinkFromInput } from "@/data/link-saves";
+import { getUserLinkById, trashLinkById } from "@/data/links";
+import { apiError, getApiUserId, parseJsonDate, readJsonBody, toApiLink } from "@/lib/api";
+import { getTagsForLinks } from "@/data/tags";
+import { dispatchWebhookEvent } from "@/data/webhooks";
+import { linkEventData } from "@/lib/webhooks";
+import { linkOwnerId, personalWorkspace } from "@/lib/workspaces";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function parseLinkId({ params }: RouteContext) {
+  const { id } = await params;
+  const linkId = Number(id);
+  return Number.isInteger(linkId) && linkId > 0 ? linkId : null;
+}
+
+/**
+ * GET handler returning one of the API key owner's links
+ * @param request - The incoming request
+ * @param context - Route parameters containing the link id
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const userId = getApiUserId(request);
+  if (!userId) {
+    return apiError("Unauthorized", 401);
+  }
+
+  const linkId = await parseLinkId(context);
+  const link = linkId ? await getUserLinkById(linkId, personalWorkspace(userId)) : null;
+  if (!link) {
+    return apiError("Link not found", 404);
+  }
+
+  const tagsByLink = await getTagsForLinks([link.id]);
+  return NextResponse.json({ data: toApiLink(link, tagsByLink.get(link.id)) });
+}
+
+/**
+ * PATCH handler updating one of the API key owner's links; omitted fields keep their values
+ * @param request - The incoming request with a partial JSON body
+ * @param context - Route parameters containing the link id
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const userId = getApiUserId(request);
+  if (!userId) {
+    return apiError("Unauthorized", 401);
+  }
+
+  const linkId = await parseLinkId(context);
+  const existing = linkId ? await getUserLinkById(linkId, personalWorkspace(userId)) : null;
+  if (!existing) {
+    return apiError("Link not found", 404);
+  }
+
+  const body = await readJsonBody(request);
+  if (!body) {
+    return apiError("Request body must be a JSON object", 400);
+  }
+
+  try {
+    const result = await editLinkFromInput(
+      {
+        id: existing.id,
+        url: body.url ?? existing.url,
+        shortCode: body.shortCode ?? existing.shortCode,
+        activeFrom: "activeFrom" in body ? parseJsonDate(body.activeFrom) : existing.activeFrom,
+        placeholderUrl: "placeholderUrl" in body ? body.placeholderUrl : existing.placeholderUrl,
+        expiresAt: "expiresAt" in body ? parseJsonDate(body.expiresAt) : existing.expiresAt,
+        maxClicks: "maxClicks" in body ? body.maxClicks : existing.maxClicks,
+        password: body.password || undefined,
+        removePassword: body.removePassword,
+        tags: body.tags,
+        utm: body.utm,
+        forcePreview: body.forcePreview ?? existing.forcePreview,
+      },
+      personalWorkspace(userId)
+    );
+    if (!result.success) {
+      if (result.reason === "notFound") {
+        return apiError("Link not found", 404);
+      }
+      return apiError(result.error, result.reason === "conflict" ? 409 : 400);
+    }
+    const tagsByLink = await getTagsForLinks([result.data.id]);
+    return NextResponse.json({ data: toApiLink(result.data, tagsByLink.get(result.data.id)) });
+  } catch (error) {
+    console.error("Failed to update link via API:", error);
+    return apiError("Failed to update link", 500);
+  }
+}
+
+/**
+ * DELETE handler moving one of the API key owner's links to the trash
+ * @param request - The incoming request
+ * @param context - Route parameters containing the link id
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const userId = getApiUserId(request);
+  if (!userId) {
+    return apiError("Unauthorized", 401);
+  }
+
+  const linkId = await parseLinkId(context);
+  const trashed = linkId ? await trashLinkById(linkId, personalWorkspace(userId)) : null;
+  if (!trashed) {
+    return apiError("Link not found", 404);
+  }
+  after(() => dispatchWebhookEvent(linkOwnerId(trashed), "link.deleted", linkEventData(trashed)));
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createLinkFromInput } from "@/data/link-saves";
+import { getUserLinks } from "@/data/links";
+import { apiError, getApiUserId, parseJsonDate, readJsonBody, toApiLink } from "@/lib/api";
+import { getTagsForLinks } from "@/data/tags";
+import { consumeRateLimit, RATE_LIMITS, tooManyRequestsResponse } from "@/lib/rate-limit";
+import { personalWorkspace } from "@/lib/workspaces";
+
+/**
+ * GET handler listing the API key owner's links
+ * @param request - The incoming request
+ */
+export async function GET(request: NextRequest) {
+  const userId = getApiUserId(request);
+  if (!userId) {
+    return apiError("Unauthorized", 401);
+  }
+
+  // API keys belong to a user, so the API works with their personal links
+  const userLinks = await getUserLinks(personalWorkspace(userId));
+  const tagsByLink = await getTagsForLinks(userLinks.map((link) => link.id));
+  return NextResponse.json({
+    data: userLinks.map((link) => toApiLink(link, tagsByLink.get(link.id))),
+  });
+}
+
+/**
+ * POST handler creating a link for the API key owner
+ * @param request - The incoming request with a JSON body matching CreateLinkInput
+ */
+export async function POST(request: NextRequest) {
+  const userId = getApiUserId(request);
+  if (!userId) {
+    return apiError("Unauthorized", 401);
+  }
+
+  // Shares the dashboard's creation limit on top of the general API limit
+  const rateLimit = await consumeRateLimit(RATE_LIMITS.createLink, userId);
+  if (!rateLimit.allowed) {
+    return tooManyRequestsResponse(rateLimit);
+  }
+
+  const body = await readJsonBody(request);
+  if (!body) {
+    return apiError("Request body must be a JSON object", 400);
+  }
+
+  try {
+    const result = await createLinkFromInput(
+      {
+        ...body,
+        shortCode: body.shortCode || undefined,
+        activeFrom: parseJsonDate(body.activeFrom),
+        expiresAt: parseJsonDate(body.expiresAt),
+        password: body.password || undefined,
+      },
+      personalWorkspace(userId)
+    );
+    if (!result.success) {
+      return apiError(result.error, result.reason === "conflict" ? 409 : 400);
+    }
+    const tagsByLink = await getTagsForLinks([result.data.id]);
+    return NextResponse.json(
+      { data: toApiLink(result.data, tagsByLink.get(result.data.id)) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create link via API:", error);
+    return apiError("Failed to create link", 500);
+  }
+}
@@ -1,36 +1,53 @@
 "use server";
 
 import { auth } from "@clerk/nextjs/server";
+import { after } from "next/server";
 import { z } from "zod";
-import { insertLink, updateLink } from "@/data/links";
-import type { Link } from "@/db/schema";
-
-const createLinkSchema = z.object({
-  url: z.string().url("Invalid URL format"),
-  shortCode: z
-    .string()
-    .min(3, "Short code must be at least 3 characters")
-    .max(20, "Short code must be at most 20 characters")
-    .regex(
-      /^[a-zA-Z0-9-_]+$/,
-      "Short code can only contain letters, numbers, hyphens, and underscores"
-    ),
-});
-
-const editLinkSchema = createLinkSchema.extend({
-  id: z.number(),
-});
-
-interface CreateLinkInput {
-  url: string;
-  shortCode: string;
-}
-
-interface EditLinkInput {
-  id: number;
-  url: string;
-  shortCode: string;
-}
+import {
+  getExistingShortCodes,
+  getUserLinkById,
+  insertLinks,
+  purgeLinkById,
+  restoreLinkById,
+  trashLinkById,
+  updateLink,
+  updateLinkAppLinks,
+  updateLinkSocialPreview,
+} from "@/data/links";
+import { checkLinkUrls, getDestinationContext } from "@/data/destinations";
+import { getLinkHistoryEntry } from "@/data/link-history";
+import { createLinkFromInput, editLinkFromInput } from "@/data/link-saves";
+import { setLinkVariants } from "@/data/link-variants";
+import { setRedirectRules } from "@/data/redirect-rules";
+import { deleteUtmPreset, upsertUtmPreset } from "@/data/utm-presets";
+import { dispatchWebhookEvent } from "@/data/webhooks";
+import type { Link, UtmPreset } from "@/db/schema";
+import { isUniqueViolation } from "@/lib/db-errors";
+import { actionRateLimitError, RATE_LIMITS } from "@/lib/rate-limit";
+import {
+  appLinksSchema,
+  createLinkSchema,
+  editLinkSchema,
+  linkVariantsSchema,
+  parseDestinationUrl,
+  redirectRulesSchema,
+  socialPreviewSchema,
+  utmPresetSchema,
+  type AppLinksInput,
+  type CreateLinkInput,
+  type EditLinkInput,
+  type LinkVariantInput,
+  type RedirectRuleInput,
+  type SocialPreviewInput,
+} from "@/lib/link-schemas";
+import { checkDestinationUrl } from "@/lib/url-safety";
+import { linkEventData } from "@/lib/webhooks";
+import { linkOwnerId, toWorkspace } from "@/lib/workspaces";
+import {
+  MAX_IMPORT_ROWS,
+  parseImportCsv,
+  type ImportPreviewRow,
+} from "@/lib/link-import";
 
 type ActionResult<T> =
   | { success: true; data: T }
@@ -38,22 +55,153 @@ type ActionResult<T> =
 
 /**
  * Server action to create a new shortened link
- * @param input - The link data including URL and custom short code
+ * @param input - The link data including URL, optional custom short code and optional limits
  * @returns ActionResult with created link or error message
  */
 export async function createLink(
   input: CreateLinkInput
 ): Promise<ActionResult<Link>> {
   // Check authentication first
-  const { userId } = await auth();
+  const { userId, orgId, orgRole } = await auth();
+
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.createLink, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  try {
+    // A blank short code means "generate one"
+    return await createLinkFromInput(
+      {
+        ...input,
+        shortCode: input.shortCode?.trim() || undefined,
+        password: input.password || undefined,
+      },
+      workspace
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to create link" };
+  }
+}
+
+/**
+ * Server action to edit an existing link
+ * @param input - The link data including id, URL, short code and limits
+ * @returns ActionResult with updated link or error message
+ */
+export async function editLink(
+  input: EditLinkInput
+): Promise<ActionResult<Link>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  try {
+    return await editLinkFromInput({ ...input, password: input.password || undefined }, workspace);
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to update link" };
+  }
+}
+
+const deleteLinkSchema = z.object({
+  id: z.number(),
+});
 
+interface DeleteLinkInput {
+  id: number;
+}
+
+/**
+ * Server action to move a link to the trash
+ * @param input - The link id
+ * @returns ActionResult with success or error message
+ */
+export async function deleteLinkAction(
+  input: DeleteLinkInput
+): Promise<ActionResult<null>> {
+  const { userId, orgId, orgRole } = await auth();
   if (!userId) {
     return { success: false, error: "Unauthorized" };
   }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
 
   // Validate input
-  const validationResult = createLinkSchema.safeParse(input);
+  const validationResult = deleteLinkSchema.safeParse(input);
+  
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+  const validData = validationResult.data;
 
+  try {
+    const trashed = await trashLinkById(validData.id, workspace);
+    if (!trashed) {
+      return { success: false, error: "Link not found or not owned by user" };
+    }
+    after(() => dispatchWebhookEvent(linkOwnerId(trashed), "link.deleted", linkEventData(trashed)));
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to delete link" };
+  }
+}
+
+const trashedLinkSchema = z.object({
+  id: z.number(),
+});
+
+interface TrashedLinkInput {
+  id: number;
+}
+
+/**
+ * Server action to restore a link from the trash
+ * @param input - The link id
+ * @returns ActionResult with success or error message
+ */
+export async function restoreLinkAction(
+  input: TrashedLinkInput
+): Promise<ActionResult<null>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = trashedLinkSchema.safeParse(input);
   if (!validationResult.success) {
     return {
       success: false,
@@ -61,61 +209,351 @@ export async function createLink(
     };
   }
 
-  const validData = validationResult.data;
+  try {
+    const restored = await restoreLinkById(validationResult.data.id, workspace);
+    if (!restored) {
+      return { success: false, error: "Link not found in the trash" };
+    }
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to restore link" };
+  }
+}
+
+/**
+ * Server action to permanently delete a link from the trash, including its analytics
+ * @param input - The link id
+ * @returns ActionResult with success or error message
+ */
+export async function purgeLinkAction(
+  input: TrashedLinkInput
+): Promise<ActionResult<null>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = trashedLinkSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
 
   try {
-    // Insert the new link
-    const newLink = await insertLink({
-      userId,
-      url: validData.url,
-      shortCode: validData.shortCode,
+    const purged = await purgeLinkById(validationResult.data.id, workspace);
+    if (!purged) {
+      return { success: false, error: "Link not found in the trash" };
+    }
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to permanently delete link" };
+  }
+}
+
+const revertLinkSchema = z.object({
+  linkId: z.number(),
+  historyId: z.number(),
+});
+
+interface RevertLinkInput {
+  linkId: number;
+  historyId: number;
+}
+
+/**
+ * Server action to restore a link's fields to how they were in one of its history entries
+ * @param input - The link id and the history entry to revert to
+ * @returns ActionResult with the updated link or error message
+ */
+export async function revertLinkAction(
+  input: RevertLinkInput
+): Promise<ActionResult<Link>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = revertLinkSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+  const { linkId, historyId } = validationResult.data;
+
+  try {
+    const link = await getUserLinkById(linkId, workspace, "edit");
+    if (!link) {
+      return { success: false, error: "Link not found or not owned by user" };
+    }
+    const entry = await getLinkHistoryEntry(historyId, linkId);
+    // Deleting doesn't change any fields, so its version is the state just before
+    const version = entry && (entry.after ?? entry.before);
+    if (!version) {
+      return { success: false, error: "Version not found" };
+    }
+
+    // Old versions go through the same checks as a normal edit
+    const versionResult = editLinkSchema.safeParse({
+      id: linkId,
+      url: version.url,
+      shortCode: version.shortCode,
+      activeFrom: version.activeFrom ? new Date(version.activeFrom) : null,
+      placeholderUrl: version.placeholderUrl ?? null,
+      expiresAt: version.expiresAt ? new Date(version.expiresAt) : null,
+      maxClicks: version.maxClicks,
+      forcePreview: version.forcePreview,
     });
+    if (!versionResult.success) {
+      return {
+        success: false,
+        error: versionResult.error.issues[0].message,
+      };
+    }
+    const urlResult = parseDestinationUrl(versionResult.data.url);
+    if (!urlResult.success) {
+      return {
+        success: false,
+        error: urlResult.error.issues[0].message,
+      };
+    }
+    const unsafeReason = await checkLinkUrls(urlResult.data, versionResult.data.placeholderUrl);
+    if (unsafeReason) {
+      return { success: false, error: unsafeReason };
+    }
 
-    return { success: true, data: newLink };
+    const updatedLink = await updateLink({
+      id: linkId,
+      workspace,
+      url: urlResult.data,
+      shortCode: versionResult.data.shortCode,
+      activeFrom: versionResult.data.activeFrom ?? null,
+      placeholderUrl: versionResult.data.placeholderUrl ?? null,
+      expiresAt: versionResult.data.expiresAt ?? null,
+      maxClicks: versionResult.data.maxClicks ?? null,
+      // Only the fact that a password was set is recorded, so a removed one can't be brought back
+      passwordHash: version.hasPassword ? undefined : null,
+      forcePreview: versionResult.data.forcePreview,
+      action: "revert",
+    });
+    if (!updatedLink) {
+      return { success: false, error: "Link not found or not owned by user" };
+    }
+    after(() => dispatchWebhookEvent(linkOwnerId(updatedLink), "link.updated", linkEventData(updatedLink)));
+    return { success: true, data: updatedLink };
   } catch (error) {
-    // Handle database errors (e.g., duplicate short code)
+    if (isUniqueViolation(error)) {
+      return {
+        success: false,
+        error: "This short code is already in use. Please try another one.",
+      };
+    }
     if (error instanceof Error) {
-      if (error.message.includes("unique")) {
-        return {
-          success: false,
-          error: "This short code is already in use. Please try another one.",
-        };
-      }
       return { success: false, error: error.message };
     }
-    return { success: false, error: "Failed to create link" };
+    return { success: false, error: "Failed to revert link" };
   }
 }
 
+const saveRedirectRulesSchema = z.object({
+  linkId: z.number(),
+  rules: redirectRulesSchema,
+});
+
+interface SaveRedirectRulesInput {
+  linkId: number;
+  // The complete list in evaluation order, replacing the link's current rules
+  rules: RedirectRuleInput[];
+}
+
 /**
- * Server action to edit an existing link
- * @param input - The link data including id, URL, and short code
- * @returns ActionResult with updated link or error message
+ * Server action to replace a link's conditional redirect rules
+ * @param input - The link id and its ordered rules
+ * @returns ActionResult with success or error message
  */
-export async function editLink(
-  input: EditLinkInput
+export async function saveRedirectRules(
+  input: SaveRedirectRulesInput
+): Promise<ActionResult<null>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = saveRedirectRulesSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+  const { linkId, rules } = validationResult.data;
+
+  const context = await getDestinationContext();
+  for (const [index, rule] of rules.entries()) {
+    const unsafeReason = checkDestinationUrl(rule.url, context);
+    if (unsafeReason) {
+      return { success: false, error: `Rule ${index + 1}: ${unsafeReason}` };
+    }
+  }
+
+  try {
+    const link = await getUserLinkById(linkId, workspace, "edit");
+    if (!link) {
+      return { success: false, error: "Link not found or not owned by user" };
+    }
+    await setRedirectRules(
+      linkId,
+      rules.map((rule) => ({
+        device: rule.device,
+        os: rule.os,
+        language: rule.language || null,
+        url: rule.url,
+      }))
+    );
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to save redirect rules" };
+  }
+}
+
+const saveLinkVariantsSchema = z.object({
+  linkId: z.number(),
+  variants: linkVariantsSchema,
+  sticky: z.boolean(),
+});
+
+interface SaveLinkVariantsInput {
+  linkId: number;
+  // The complete list in display order; an empty list turns the split test off
+  variants: LinkVariantInput[];
+  sticky: boolean;
+}
+
+/**
+ * Server action to replace a link's weighted split-test destinations
+ * @param input - The link id, its variants and whether visitors keep their variant
+ * @returns ActionResult with success or error message
+ */
+export async function saveLinkVariants(
+  input: SaveLinkVariantsInput
+): Promise<ActionResult<null>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = saveLinkVariantsSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+  const { linkId, variants, sticky } = validationResult.data;
+
+  const context = await getDestinationContext();
+  for (const [index, variant] of variants.entries()) {
+    const unsafeReason = checkDestinationUrl(variant.url, context);
+    if (unsafeReason) {
+      return {
+        success: false,
+        error: `Variant ${String.fromCharCode(65 + index)}: ${unsafeReason}`,
+      };
+    }
+  }
+
+  try {
+    const link = await getUserLinkById(linkId, workspace, "edit");
+    if (!link) {
+      return { success: false, error: "Link not found or not owned by user" };
+    }
+    await setLinkVariants(linkId, variants, sticky);
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to save variants" };
+  }
+}
+
+const saveSocialPreviewSchema = socialPreviewSchema.extend({
+  linkId: z.number(),
+});
+
+interface SaveSocialPreviewInput extends SocialPreviewInput {
+  linkId: number;
+}
+
+/**
+ * Server action to set the Open Graph card link-unfurling crawlers see for a link
+ * @param input - The link id and the card's title, description and image URL
+ * @returns ActionResult with the updated link or error message
+ */
+export async function saveSocialPreview(
+  input: SaveSocialPreviewInput
 ): Promise<ActionResult<Link>> {
-  const { userId } = await auth();
+  const { userId, orgId, orgRole } = await auth();
   if (!userId) {
     return { success: false, error: "Unauthorized" };
   }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
 
-  // Validate input
-  const validationResult = editLinkSchema.safeParse(input);
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = saveSocialPreviewSchema.safeParse(input);
   if (!validationResult.success) {
     return {
       success: false,
       error: validationResult.error.issues[0].message,
     };
   }
-  const validData = validationResult.data;
+  const { linkId, title, description, imageUrl } = validationResult.data;
 
   try {
-    const updatedLink = await updateLink({
-      id: validData.id,
-      userId,
-      url: validData.url,
-      shortCode: validData.shortCode,
+    const updatedLink = await updateLinkSocialPreview(linkId, workspace, {
+      ogTitle: title,
+      ogDescription: description,
+      ogImageUrl: imageUrl,
     });
     if (!updatedLink) {
       return { success: false, error: "Link not found or not owned by user" };
@@ -123,62 +561,356 @@ export async function editLink(
     return { success: true, data: updatedLink };
   } catch (error) {
     if (error instanceof Error) {
-      if (error.message.includes("unique")) {
-        return {
-          success: false,
-          error: "This short code is already in use. Please try another one.",
-        };
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to save social preview" };
+  }
+}
+
+// safeExtend keeps the store URL checks, which extend() refuses to copy
+const saveAppLinksSchema = appLinksSchema.safeExtend({
+  linkId: z.number(),
+});
+
+interface SaveAppLinksInput extends AppLinksInput {
+  linkId: number;
+}
+
+/**
+ * Server action to set the iOS and Android apps mobile visitors of a link are offered first
+ * @param input - The link id and each platform's app and store URLs
+ * @returns ActionResult with the updated link or error message
+ */
+export async function saveAppLinks(
+  input: SaveAppLinksInput
+): Promise<ActionResult<Link>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = saveAppLinksSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+  const { linkId, iosAppUrl, iosStoreUrl, androidAppUrl, androidStoreUrl } = validationResult.data;
+
+  // Universal links are opened like any destination, so they get the same safety checks
+  const universalLinks = [iosAppUrl, androidAppUrl].filter(
+    (url): url is string => !!url && /^https?:\/\//i.test(url)
+  );
+  if (universalLinks.length > 0) {
+    const context = await getDestinationContext();
+    for (const url of universalLinks) {
+      const unsafeReason = checkDestinationUrl(url, context);
+      if (unsafeReason) {
+        return { success: false, error: `App link: ${unsafeReason}` };
       }
+    }
+  }
+
+  try {
+    const updatedLink = await updateLinkAppLinks(linkId, workspace, {
+      iosAppUrl,
+      iosStoreUrl,
+      androidAppUrl,
+      androidStoreUrl,
+    });
+    if (!updatedLink) {
+      return { success: false, error: "Link not found or not owned by user" };
+    }
+    return { success: true, data: updatedLink };
+  } catch (error) {
+    if (error instanceof Error) {
       return { success: false, error: error.message };
     }
-    return { success: false, error: "Failed to update link" };
+    return { success: false, error: "Failed to save app links" };
   }
 }
 
-const deleteLinkSchema = z.object({
-  id: z.number(),
+const importLinksSchema = z.object({
+  csv: z
+    .string()
+    .min(1, "The CSV file is empty")
+    .max(1_000_000, "The CSV file must be smaller than 1 MB"),
 });
 
-interface DeleteLinkInput {
+interface ImportLinksInput {
+  csv: string;
+}
+
+/**
+ * Validates every import row against createLinkSchema, the rest of the file and existing links
+ * @param csv - The uploaded CSV text
+ * @returns The preview rows, or an error message if the file itself is unusable
+ */
+async function buildImportPreview(
+  csv: string
+): Promise<ActionResult<ImportPreviewRow[]>> {
+  const rows = parseImportCsv(csv);
+  if (rows.length === 0) {
+    return { success: false, error: "The CSV file has no rows to import" };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return {
+      success: false,
+      error: `You can import at most ${MAX_IMPORT_ROWS} links at a time`,
+    };
+  }
+
+  const [existingCodes, context] = await Promise.all([
+    getExistingShortCodes(rows.map((row) => row.shortCode).filter((code) => code !== "")),
+    getDestinationContext(),
+  ]);
+  const takenCodes = new Set(existingCodes);
+  const firstLineByCode = new Map<string, number>();
+
+  const preview = rows.map((row) => {
+    const validationResult = createLinkSchema.safeParse({
+      url: row.url,
+      shortCode: row.shortCode || undefined,
+    });
+    if (!validationResult.success) {
+      return { ...row, error: validationResult.error.issues[0].message };
+    }
+    const unsafeReason = checkDestinationUrl(validationResult.data.url, context);
+    if (unsafeReason) {
+      return { ...row, error: unsafeReason };
+    }
+    if (!row.shortCode) {
+      return { ...row, error: null };
+    }
+    if (takenCodes.has(row.shortCode)) {
+      return { ...row, error: "This short code is already in use" };
+    }
+    const firstLine = firstLineByCode.get(row.shortCode);
+    if (firstLine !== undefined) {
+      return { ...row, error: `Duplicate of the short code on line ${firstLine}` };
+    }
+    firstLineByCode.set(row.shortCode, row.line);
+    return { ...row, error: null };
+  });
+
+  return { success: true, data: preview };
+}
+
+/**
+ * Server action to preview a CSV import without saving anything
+ * @param input - The CSV text with url,shortCode rows
+ * @returns ActionResult with per-row validation results or error message
+ */
+export async function previewLinkImport(
+  input: ImportLinksInput
+): Promise<ActionResult<ImportPreviewRow[]>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.importLinks, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = importLinksSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  try {
+    return await buildImportPreview(validationResult.data.csv);
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to read the CSV file" };
+  }
+}
+
+/**
+ * Server action to import every row of a CSV, or none if any row is invalid
+ * @param input - The CSV text with url,shortCode rows
+ * @returns ActionResult with the number of links created or error message
+ */
+export async function importLinks(
+  input: ImportLinksInput
+): Promise<ActionResult<{ imported: number }>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.importLinks, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = importLinksSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  try {
+    // Re-validate on the server, the preview may be stale
+    const preview = await buildImportPreview(validationResult.data.csv);
+    if (!preview.success) {
+      return preview;
+    }
+    const invalidRows = preview.data.filter((row) => row.error);
+    if (invalidRows.length > 0) {
+      return {
+        success: false,
+        error: `${invalidRows.length} row(s) have errors. Fix them and try again.`,
+      };
+    }
+
+    const created = await insertLinks(
+      preview.data.map((row) => ({
+        url: row.url,
+        shortCode: row.shortCode || undefined,
+      })),
+      workspace
+    );
+    // One event per link, sent one after another so a large import doesn't flood the endpoints
+    after(async () => {
+      for (const link of created) {
+        await dispatchWebhookEvent(linkOwnerId(link), "link.created", linkEventData(link));
+      }
+    });
+    return { success: true, data: { imported: created.length } };
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return {
+        success: false,
+        error: "Some short codes were taken during the import. Preview the file again.",
+      };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to import links" };
+  }
+}
+
+interface SaveUtmPresetInput {
+  name: string;
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+interface DeleteUtmPresetInput {
   id: number;
 }
 
+const deleteUtmPresetSchema = z.object({
+  id: z.number(),
+});
+
 /**
- * Server action to delete a link
- * @param input - The link id
+ * Server action to save reusable UTM values, replacing a preset with the same name
+ * @param input - The preset name and UTM values
+ * @returns ActionResult with the saved preset or error message
+ */
+export async function saveUtmPreset(
+  input: SaveUtmPresetInput
+): Promise<ActionResult<UtmPreset>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = utmPresetSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+  const { name, source, medium, campaign, term, content } = validationResult.data;
+
+  if (![source, medium, campaign, term, content].some(Boolean)) {
+    return { success: false, error: "Fill in at least one UTM field to save a preset" };
+  }
+
+  try {
+    const preset = await upsertUtmPreset({
+      userId,
+      name,
+      source: source || null,
+      medium: medium || null,
+      campaign: campaign || null,
+      term: term || null,
+      content: content || null,
+    });
+    return { success: true, data: preset };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to save preset" };
+  }
+}
+
+/**
+ * Server action to delete a UTM preset
+ * @param input - The preset id
  * @returns ActionResult with success or error message
  */
-export async function deleteLinkAction(
-  input: DeleteLinkInput
+export async function deleteUtmPresetAction(
+  input: DeleteUtmPresetInput
 ): Promise<ActionResult<null>> {
   const { userId } = await auth();
   if (!userId) {
     return { success: false, error: "Unauthorized" };
   }
 
-  // Validate input
-  const validationResult = deleteLinkSchema.safeParse(input);
-  
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = deleteUtmPresetSchema.safeParse(input);
   if (!validationResult.success) {
     return {
       success: false,
       error: validationResult.error.issues[0].message,
     };
   }
-  const validData = validationResult.data;
 
   try {
-    // Dynamically import and call deleteLinkById
-    const linksModule = await import("@/data/links");
-    const deleted = await linksModule.deleteLinkById(validData.id, userId);
+    const deleted = await deleteUtmPreset(validationResult.data.id, userId);
     if (!deleted) {
-      return { success: false, error: "Link not found or not owned by user" };
+      return { success: false, error: "Preset not found or not owned by user" };
     }
     return { success: true, data: null };
   } catch (error) {
     if (error instanceof Error) {
       return { success: false, error: error.message };
     }
-    return { success: false, error: "Failed to delete link" };
+    return { success: false, error: "Failed to delete preset" };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,130 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { deleteBlockedDomain, insertBlockedDomain } from "@/data/blocked-domains";
+import type { BlockedDomain } from "@/db/schema";
+import { isAdmin } from "@/lib/admin";
+import { isUniqueViolation } from "@/lib/db-errors";
+import { actionRateLimitError, RATE_LIMITS } from "@/lib/rate-limit";
+import { normalizeDomain } from "@/lib/url-safety";
+
+const blockDomainSchema = z.object({
+  domain: z
+    .string()
+    .trim()
+    .min(1, "Domain is required")
+    .max(253, "Domain must be at most 253 characters"),
+  reason: z
+    .string()
+    .trim()
+    .max(200, "Reason must be at most 200 characters")
+    .optional(),
+});
+
+const unblockDomainSchema = z.object({
+  id: z.number(),
+});
+
+interface BlockDomainInput {
+  // A hostname or full URL, e.g. "example.com"
+  domain: string;
+  reason?: string;
+}
+
+interface UnblockDomainInput {
+  id: number;
+}
+
+type ActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * Server action to add a domain to the destination blocklist
+ * @param input - The domain and an optional reason shown to users
+ * @returns ActionResult with the new blocklist entry or error message
+ */
+export async function blockDomainAction(
+  input: BlockDomainInput
+): Promise<ActionResult<BlockedDomain>> {
+  const { userId } = await auth();
+  if (!userId || !isAdmin(userId)) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = blockDomainSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  const domain = normalizeDomain(validationResult.data.domain);
+  if (!domain) {
+    return { success: false, error: "Enter a domain like example.com" };
+  }
+
+  try {
+    const entry = await insertBlockedDomain({
+      domain,
+      reason: validationResult.data.reason || null,
+      createdBy: userId,
+    });
+    return { success: true, data: entry };
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { success: false, error: `${domain} is already blocked` };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to block domain" };
+  }
+}
+
+/**
+ * Server action to remove a domain from the destination blocklist
+ * @param input - The blocklist entry id
+ * @returns ActionResult with success or error message
+ */
+export async function unblockDomainAction(
+  input: UnblockDomainInput
+): Promise<ActionResult<null>> {
+  const { userId } = await auth();
+  if (!userId || !isAdmin(userId)) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = unblockDomainSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  try {
+    const deleted = await deleteBlockedDomain(validationResult.data.id);
+    if (!deleted) {
+      return { success: false, error: "Domain not found" };
+    }
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to unblock domain" };
+  }
+}
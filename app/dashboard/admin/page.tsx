@@ -0,0 +1,82 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { getBlockedDomains } from "@/data/blocked-domains";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { BlockDomainDialog } from "@/components/block-domain-dialog";
+import { UnblockDomainDialog } from "@/components/unblock-domain-dialog";
+import { isAdmin } from "@/lib/admin";
+
+export default async function AdminPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  // Hide the page entirely from non-admins
+  if (!isAdmin(userId)) {
+    notFound();
+  }
+
+  const blockedDomains = await getBlockedDomains();
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8 space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard">
+            <ArrowLeft className="w-4 h-4" />
+            Back to dashboard
+          </Link>
+        </Button>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Admin</h1>
+            <p className="text-muted-foreground mt-2">
+              Manage site-wide restrictions on link destinations
+            </p>
+          </div>
+          <BlockDomainDialog />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Blocked Domains</h2>
+        <p className="text-sm text-muted-foreground">
+          Blocking a domain also blocks its subdomains. Existing links are not changed.
+        </p>
+        {blockedDomains.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>No blocked domains</CardTitle>
+              <CardDescription>
+                Block domains used for phishing, malware or spam
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {blockedDomains.map((entry) => (
+              <Card key={entry.id}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-lg font-medium font-mono">{entry.domain}</CardTitle>
+                      <CardDescription>
+                        {entry.reason ?? "No reason given"} · Blocked {new Date(entry.createdAt).toLocaleDateString()}
+                      </CardDescription>
+                    </div>
+                    <UnblockDomainDialog blockedDomain={{ id: entry.id, domain: entry.domain }} />
+                  </div>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import {
+  deleteDomain,
+  getWorkspaceDomainById,
+  insertDomain,
+  markDomainVerified,
+  updateDomainAppAssociation,
+} from "@/data/custom-domains";
+import type { CustomDomain } from "@/db/schema";
+import { parseAndroidAssetLinks, parseAppleAppSiteAssociation } from "@/lib/app-links";
+import {
+  areCustomDomainsConfigured,
+  generateVerificationToken,
+  getCustomDomainHost,
+  getVerificationRecord,
+  isDomainOwnershipVerified,
+} from "@/lib/custom-domains";
+import { isUniqueViolation } from "@/lib/db-errors";
+import { actionRateLimitError, RATE_LIMITS } from "@/lib/rate-limit";
+import { isPrivateHost, normalizeDomain } from "@/lib/url-safety";
+import { toWorkspace } from "@/lib/workspaces";
+
+const addDomainSchema = z.object({
+  hostname: z
+    .string()
+    .trim()
+    .min(1, "Domain is required")
+    .max(253, "Domain must be at most 253 characters"),
+});
+
+const domainIdSchema = z.object({
+  id: z.number(),
+});
+
+/**
+ * Validates an optional JSON file, turning a blank value into null
+ * @param parse - Parses the file, throwing with the reason it's rejected
+ */
+function jsonFileSchema<T>(parse: (text: string) => T) {
+  return z
+    .string()
+    .trim()
+    .max(20000, "Files must be at most 20,000 characters")
+    .transform((text, ctx) => {
+      if (!text) {
+        return null;
+      }
+      try {
+        return parse(text);
+      } catch (error) {
+        ctx.addIssue({
+          code: "custom",
+          message: error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : (error as Error).message,
+        });
+        return z.NEVER;
+      }
+    });
+}
+
+const appAssociationSchema = z.object({
+  id: z.number(),
+  appleAppSiteAssociation: jsonFileSchema(parseAppleAppSiteAssociation),
+  androidAssetLinks: jsonFileSchema(parseAndroidAssetLinks),
+});
+
+interface AddDomainInput {
+  // A hostname or full URL, e.g. "go.example.com"
+  hostname: string;
+}
+
+interface DomainIdInput {
+  id: number;
+}
+
+interface AppAssociationInput {
+  id: number;
+  // The JSON files served from /.well-known; leave blank to serve nothing
+  appleAppSiteAssociation: string;
+  androidAssetLinks: string;
+}
+
+type ActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * Server action to add a custom domain to the active workspace, pending DNS verification
+ * @param input - The domain's hostname
+ * @returns ActionResult with the new domain or error message
+ */
+export async function addDomainAction(
+  input: AddDomainInput
+): Promise<ActionResult<CustomDomain>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  if (!areCustomDomainsConfigured()) {
+    return { success: false, error: "Custom domains are not configured on this server" };
+  }
+
+  const validationResult = addDomainSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  const hostname = normalizeDomain(validationResult.data.hostname);
+  if (!hostname || isPrivateHost(hostname)) {
+    return { success: false, error: "Enter a public domain like go.example.com" };
+  }
+  if (getCustomDomainHost(hostname) === null) {
+    return { success: false, error: "This is the app's own domain" };
+  }
+
+  try {
+    const domain = await insertDomain(hostname, generateVerificationToken(), workspace);
+    if (!domain) {
+      return { success: false, error: `${hostname} has already been added` };
+    }
+    return { success: true, data: domain };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to add domain" };
+  }
+}
+
+/**
+ * Server action to check a domain's DNS TXT record and mark it verified
+ * @param input - The domain id
+ * @returns ActionResult with the verified domain or error message
+ */
+export async function verifyDomainAction(
+  input: DomainIdInput
+): Promise<ActionResult<CustomDomain>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = domainIdSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  try {
+    const domain = await getWorkspaceDomainById(validationResult.data.id, workspace);
+    if (!domain) {
+      return { success: false, error: "Domain not found" };
+    }
+    if (domain.verifiedAt) {
+      return { success: true, data: domain };
+    }
+
+    if (!(await isDomainOwnershipVerified(domain.hostname, domain.verificationToken))) {
+      const record = getVerificationRecord(domain.hostname, domain.verificationToken);
+      return {
+        success: false,
+        error: `No TXT record named ${record.name} with the value ${record.value} was found. DNS changes can take a while to appear.`,
+      };
+    }
+
+    const verified = await markDomainVerified(domain.id, workspace);
+    if (!verified) {
+      return { success: false, error: "Domain not found" };
+    }
+    return { success: true, data: verified };
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { success: false, error: "This domain is already verified by another workspace" };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to verify domain" };
+  }
+}
+
+/**
+ * Server action to remove a custom domain that no links use any more
+ * @param input - The domain id
+ * @returns ActionResult with success or error message
+ */
+export async function removeDomainAction(
+  input: DomainIdInput
+): Promise<ActionResult<null>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = domainIdSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  try {
+    const result = await deleteDomain(validationResult.data.id, workspace);
+    if (result === "not-found") {
+      return { success: false, error: "Domain not found" };
+    }
+    if (result === "in-use") {
+      return {
+        success: false,
+        error: "Links still use this domain. Delete them and empty them from the trash first.",
+      };
+    }
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to remove domain" };
+  }
+}
+
+/**
+ * Server action to set the app association files a domain serves, so the owner's apps can open its links
+ * @param input - The domain id and the apple-app-site-association and assetlinks.json contents
+ * @returns ActionResult with the updated domain or error message
+ */
+export async function saveDomainAppAssociationAction(
+  input: AppAssociationInput
+): Promise<ActionResult<CustomDomain>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = appAssociationSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+  const { id, appleAppSiteAssociation, androidAssetLinks } = validationResult.data;
+
+  try {
+    const domain = await updateDomainAppAssociation(id, workspace, {
+      appleAppSiteAssociation,
+      androidAssetLinks,
+    });
+    if (!domain) {
+      return { success: false, error: "Domain not found" };
+    }
+    return { success: true, data: domain };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to save app association" };
+  }
+}
@@ -0,0 +1,123 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { getWorkspaceDomains } from "@/data/custom-domains";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AddDomainDialog } from "@/components/add-domain-dialog";
+import { DomainAppAssociationDialog } from "@/components/domain-app-association-dialog";
+import { RemoveDomainDialog } from "@/components/remove-domain-dialog";
+import { VerifyDomainButton } from "@/components/verify-domain-button";
+import { getVerificationRecord } from "@/lib/custom-domains";
+import { canManageLinks, toWorkspace } from "@/lib/workspaces";
+
+export default async function DomainsPage() {
+  const { userId, orgId, orgRole } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+  const canManage = canManageLinks(workspace, "manageDomains");
+
+  const domains = await getWorkspaceDomains(workspace);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8 space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard">
+            <ArrowLeft className="w-4 h-4" />
+            Back to dashboard
+          </Link>
+        </Button>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Custom Domains</h1>
+            <p className="text-muted-foreground mt-2">
+              Serve short links from your own domain, e.g. go.example.com/launch
+            </p>
+          </div>
+          {canManage && <AddDomainDialog />}
+        </div>
+      </div>
+
+      {domains.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>No custom domains</CardTitle>
+            <CardDescription>
+              Links use this site&apos;s address until you add a domain
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {domains.map((domain) => {
+            const record = getVerificationRecord(domain.hostname, domain.verificationToken);
+            return (
+              <Card key={domain.id}>
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-lg font-medium font-mono break-all">{domain.hostname}</CardTitle>
+                      <CardDescription>
+                        Added {new Date(domain.createdAt).toLocaleDateString()}
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-start gap-2">
+                      {domain.verifiedAt ? (
+                        <>
+                          <Badge>Verified</Badge>
+                          {canManage && (
+                            <DomainAppAssociationDialog
+                              domain={{
+                                id: domain.id,
+                                hostname: domain.hostname,
+                                appleAppSiteAssociation: domain.appleAppSiteAssociation,
+                                androidAssetLinks: domain.androidAssetLinks,
+                              }}
+                            />
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <Badge variant="secondary">Pending verification</Badge>
+                          {canManage && <VerifyDomainButton domainId={domain.id} />}
+                        </>
+                      )}
+                      {canManage && (
+                        <RemoveDomainDialog domain={{ id: domain.id, hostname: domain.hostname }} />
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-col gap-2 text-sm text-muted-foreground">
+                    {domain.verifiedAt ? (
+                      <div>
+                        Point <span className="font-mono">{domain.hostname}</span> at this site with a CNAME record so its links resolve.
+                      </div>
+                    ) : (
+                      <>
+                        <div>Add this DNS TXT record, then verify:</div>
+                        <div>
+                          Name: <span className="font-mono break-all">{record.name}</span>
+                        </div>
+                        <div>
+                          Value: <span className="font-mono break-all">{record.value}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserLinks } from "@/data/links";
+import { toCsv } from "@/lib/csv";
+import { toWorkspace } from "@/lib/workspaces";
+
+const EXPORT_COLUMNS = ["url", "shortCode", "clickCount", "maxClicks", "expiresAt", "createdAt", "updatedAt"] as const;
+
+/**
+ * GET handler downloading all links in the signed-in user's active workspace
+ * @param request - The incoming request; ?format=json for JSON, CSV otherwise
+ */
+export async function GET(request: NextRequest) {
+  const { userId, orgId, orgRole } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userLinks = await getUserLinks(toWorkspace({ userId, orgId, orgRole }));
+  const rows = userLinks.map((link) => EXPORT_COLUMNS.map((column) => link[column]));
+  const date = new Date().toISOString().slice(0, 10);
+
+  if (request.nextUrl.searchParams.get("format") === "json") {
+    const data = rows.map((row) => Object.fromEntries(EXPORT_COLUMNS.map((column, i) => [column, row[i]])));
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="links-${date}.json"`,
+      },
+    });
+  }
+
+  // url and shortCode come first so the file can be re-imported as is
+  return new NextResponse(toCsv([...EXPORT_COLUMNS], rows), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="links-${date}.csv"`,
+    },
+  });
+}
@@ -0,0 +1,126 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { getUserLinkById } from "@/data/links";
+import { getLinkHistory } from "@/data/link-history";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RevertLinkDialog } from "@/components/revert-link-dialog";
+import {
+  describeSnapshotChanges,
+  LINK_HISTORY_ACTION_LABELS,
+  snapshotsEqual,
+  toLinkSnapshot,
+} from "@/lib/link-history";
+import { getUserDisplayNames } from "@/lib/users";
+import { canManageLinks, toWorkspace } from "@/lib/workspaces";
+
+export default async function LinkHistoryPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { userId, orgId, orgRole } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const { id } = await params;
+  const linkId = Number(id);
+  if (!Number.isInteger(linkId)) {
+    notFound();
+  }
+
+  const link = await getUserLinkById(linkId, workspace);
+  if (!link) {
+    notFound();
+  }
+
+  const history = await getLinkHistory(link.id);
+  const names = await getUserDisplayNames(history.map((entry) => entry.userId));
+  const current = toLinkSnapshot(link);
+  const canEdit = canManageLinks(workspace, "edit");
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8 space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href={`/dashboard/links/${link.id}`}>
+            <ArrowLeft className="w-4 h-4" />
+            Back to analytics
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold break-all">History of /{link.shortCode}</h1>
+          <p className="text-muted-foreground mt-2">
+            Every change to this link, newest first. Reverting goes through the same checks as an edit.
+          </p>
+        </div>
+      </div>
+
+      {history.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>No history yet</CardTitle>
+            <CardDescription>
+              Changes made to this link from now on will appear here
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <ol className="grid gap-4">
+          {history.map((entry) => {
+            const version = entry.after ?? entry.before;
+            const changes = describeSnapshotChanges(entry.before, entry.after);
+            return (
+              <li key={entry.id}>
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <CardTitle className="text-lg font-medium">
+                          {LINK_HISTORY_ACTION_LABELS[entry.action]}
+                        </CardTitle>
+                        <CardDescription>
+                          {entry.userId === userId ? "You" : names.get(entry.userId) ?? "Unknown user"} on{" "}
+                          {new Date(entry.createdAt).toLocaleDateString()} at {new Date(entry.createdAt).toLocaleTimeString()}
+                        </CardDescription>
+                      </div>
+                      {canEdit && version && !snapshotsEqual(version, current) && (
+                        <RevertLinkDialog
+                          linkId={link.id}
+                          historyId={entry.id}
+                          changes={describeSnapshotChanges(current, version)}
+                        />
+                      )}
+                    </div>
+                  </CardHeader>
+                  {entry.action !== "delete" && entry.action !== "restore" && changes.length > 0 && (
+                    <CardContent>
+                      <ul className="grid gap-1 text-sm">
+                        {changes.map((change) => (
+                          <li key={change.label} className="break-all">
+                            <span className="font-medium">{change.label}:</span>{" "}
+                            {change.from && (
+                              <>
+                                <span className="text-muted-foreground line-through">{change.from}</span> →{" "}
+                              </>
+                            )}
+                            {change.to}
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  )}
+                </Card>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+import { ArrowLeft, History } from "lucide-react";
+import { getLinkClickCount, getUserLinkById } from "@/data/links";
+import { getLinkVariants } from "@/data/link-variants";
+import {
+  getBrowserAndOsBreakdown,
+  getClicksByVariant,
+  getClicksOverTime,
+  getTopLanguages,
+  getTopReferrers,
+  type DateRange,
+  type TimeBucket,
+} from "@/data/analytics";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BreakdownCard, ClicksChart } from "@/components/link-analytics";
+import { toWorkspace } from "@/lib/workspaces";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_PRESETS = {
+  "24h": { label: "24 hours", days: 1, bucket: "hour" },
+  "7d": { label: "7 days", days: 7, bucket: "day" },
+  "30d": { label: "30 days", days: 30, bucket: "day" },
+  "90d": { label: "90 days", days: 90, bucket: "week" },
+} as const satisfies Record<string, { label: string; days: number; bucket: TimeBucket }>;
+
+type RangePreset = keyof typeof RANGE_PRESETS;
+
+const BUCKETS: TimeBucket[] = ["hour", "day", "week"];
+
+// Fine buckets over long ranges produce thousands of bars
+const MAX_HOURLY_RANGE_MS = 14 * DAY_MS;
+const MAX_DAILY_RANGE_MS = 366 * DAY_MS;
+
+// Even weekly buckets can't keep a range of decades readable, so custom ranges are cut to their last five years
+const MAX_CUSTOM_RANGE_MS = 5 * 366 * DAY_MS;
+
+interface AnalyticsSearchParams {
+  range?: string;
+  from?: string;
+  to?: string;
+  bucket?: string;
+}
+
+function parseDateParam(value: string | undefined): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function resolveRange(searchParams: AnalyticsSearchParams) {
+  const from = parseDateParam(searchParams.from);
+  const to = parseDateParam(searchParams.to);
+
+  let range: DateRange;
+  let preset: RangePreset | null = null;
+  let defaultBucket: TimeBucket;
+
+  if (from && to && from <= to) {
+    // Custom ranges include the whole "to" day
+    const end = to.getTime() + DAY_MS - 1;
+    range = { from: new Date(Math.max(from.getTime(), end - MAX_CUSTOM_RANGE_MS)), to: new Date(end) };
+    defaultBucket = end - range.from.getTime() > 31 * DAY_MS ? "week" : "day";
+  } else {
+    preset = searchParams.range && searchParams.range in RANGE_PRESETS
+      ? (searchParams.range as RangePreset)
+      : "7d";
+    const now = new Date();
+    range = { from: new Date(now.getTime() - RANGE_PRESETS[preset].days * DAY_MS), to: now };
+    defaultBucket = RANGE_PRESETS[preset].bucket;
+  }
+
+  let bucket = BUCKETS.includes(searchParams.bucket as TimeBucket)
+    ? (searchParams.bucket as TimeBucket)
+    : defaultBucket;
+  const span = range.to.getTime() - range.from.getTime();
+  if (bucket === "hour" && span > MAX_HOURLY_RANGE_MS) {
+    bucket = "day";
+  }
+  if (bucket === "day" && span > MAX_DAILY_RANGE_MS) {
+    bucket = "week";
+  }
+
+  return { range, preset, bucket };
+}
+
+function toDateInputValue(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export default async function LinkAnalyticsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<AnalyticsSearchParams>;
+}) {
+  const { userId, orgId, orgRole } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const { id } = await params;
+  const linkId = Number(id);
+  if (!Number.isInteger(linkId)) {
+    notFound();
+  }
+
+  const link = await getUserLinkById(linkId, workspace);
+  if (!link) {
+    notFound();
+  }
+
+  const query = await searchParams;
+  const { range, preset, bucket } = resolveRange(query);
+
+  const [
+    totalClicks,
+    series,
+    referrers,
+    languages,
+    { browsers, operatingSystems },
+    variants,
+    clicksByVariant,
+  ] = await Promise.all([
+    getLinkClickCount(link.id),
+    getClicksOverTime(link.id, range, bucket),
+    getTopReferrers(link.id, range),
+    getTopLanguages(link.id, range),
+    getBrowserAndOsBreakdown(link.id, range),
+    getLinkVariants(link.id),
+    getClicksByVariant(link.id, range),
+  ]);
+
+  // Listed in the link's own order, including variants without clicks yet
+  const variantEntries =
+    clicksByVariant.size === 0
+      ? []
+      : variants.map((variant, index) => ({
+          label: `${String.fromCharCode(65 + index)} (${variant.weight}%) ${variant.url}`,
+          clicks: clicksByVariant.get(variant.id) ?? 0,
+        }));
+
+  const rangeQuery = preset
+    ? { range: preset }
+    : { from: toDateInputValue(range.from), to: toDateInputValue(range.to) };
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8 space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard">
+            <ArrowLeft className="w-4 h-4" />
+            Back to dashboard
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold break-all">/{link.shortCode}</h1>
+          <p className="text-muted-foreground mt-2 break-all">{link.url}</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            {totalClicks} total {totalClicks === 1 ? "click" : "clicks"}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/dashboard/links/${link.id}/history`}>
+            <History className="w-4 h-4" />
+            Edit history
+          </Link>
+        </Button>
+      </div>
+
+      <div className="mb-6 flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(RANGE_PRESETS) as RangePreset[]).map((key) => (
+            <Button key={key} variant={preset === key ? "default" : "outline"} size="sm" asChild>
+              <Link href={{ query: { range: key } }}>{RANGE_PRESETS[key].label}</Link>
+            </Button>
+          ))}
+        </div>
+        <form className="flex flex-wrap items-end gap-2">
+          <div className="grid gap-1">
+            <Label htmlFor="from">From</Label>
+            <Input id="from" name="from" type="date" defaultValue={toDateInputValue(range.from)} required />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="to">To</Label>
+            <Input id="to" name="to" type="date" defaultValue={toDateInputValue(range.to)} required />
+          </div>
+          <input type="hidden" name="bucket" value={bucket} />
+          <Button type="submit" variant="outline" size="sm">
+            Apply
+          </Button>
+        </form>
+      </div>
+
+      <div className="mb-4 flex gap-2">
+        {BUCKETS.map((option) => (
+          <Button key={option} variant={bucket === option ? "secondary" : "ghost"} size="sm" asChild>
+            <Link href={{ query: { ...rangeQuery, bucket: option } }}>
+              {option.charAt(0).toUpperCase() + option.slice(1)}
+            </Link>
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid gap-4">
+        <ClicksChart series={series} bucket={bucket} />
+        {variants.length > 0 && (
+          <BreakdownCard title="Split test variants" entries={variantEntries} />
+        )}
+        <div className="grid gap-4 md:grid-cols-2">
+          <BreakdownCard title="Top referrers" entries={referrers} />
+          <BreakdownCard title="Languages" entries={languages} />
+          <BreakdownCard title="Browsers" entries={browsers} />
+          <BreakdownCard title="Operating systems" entries={operatingSystems} />
+        </div>
+      </div>
+    </div>
+  );
+}
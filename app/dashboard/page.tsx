@@ -1,19 +1,97 @@
+import Link from "next/link";
 import { auth } from "@clerk/nextjs/server";
+import { headers } from "next/headers";
 import { redirect } from "next/navigation";
-import { getUserLinks } from "@/data/links";
+import { BarChart3, Download, Globe, Settings, ShieldAlert, Trash2 } from "lucide-react";
+import { searchUserLinks } from "@/data/links";
+import { getVariantsForLinks } from "@/data/link-variants";
+import { getRedirectRulesForLinks } from "@/data/redirect-rules";
+import { getWorkspaceDomains } from "@/data/custom-domains";
+import { getTagsForLinks, getUserTags } from "@/data/tags";
+import { getUserUtmPresets } from "@/data/utm-presets";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { CreateLinkDialog } from "@/components/create-link-dialog";
 import { EditLinkDialog } from "@/components/edit-link-dialog";
 import { DeleteLinkDialog } from "@/components/delete-link-dialog";
+import { ImportLinksDialog } from "@/components/import-links-dialog";
+import { LinkVariantsDialog } from "@/components/link-variants-dialog";
+import { QrCodeDialog } from "@/components/qr-code-dialog";
+import { RedirectRulesDialog } from "@/components/redirect-rules-dialog";
+import { SocialPreviewDialog } from "@/components/social-preview-dialog";
+import { AppLinksDialog } from "@/components/app-links-dialog";
+import { TagFilter } from "@/components/tag-filter";
+import { LinkListControls } from "@/components/link-list-controls";
+import { dashboardHref, parseDashboardParams, type RawSearchParams } from "@/lib/dashboard-params";
+import { getLinkStatus, type LinkStatus } from "@/lib/link-status";
+import { getShortUrl } from "@/lib/short-url";
+import { isAdmin } from "@/lib/admin";
+import { canManageLinks, toWorkspace, workspaceOwnerId } from "@/lib/workspaces";
 
-export default async function DashboardPage() {
-  const { userId } = await auth();
+const STATUS_BADGES: Record<LinkStatus, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  scheduled: { label: "Scheduled", variant: "secondary" },
+  live: { label: "Live", variant: "default" },
+  expired: { label: "Expired", variant: "destructive" },
+};
+
+function LinkStatusBadge({ link }: { link: Parameters<typeof getLinkStatus>[0] }) {
+  const badge = STATUS_BADGES[getLinkStatus(link)];
+  return <Badge variant={badge.variant}>{badge.label}</Badge>;
+}
+
+export default async function DashboardPage({
+  searchParams,
+}: {
+  searchParams: Promise<RawSearchParams>;
+}) {
+  const { userId, orgId, orgRole } = await auth();
   
   if (!userId) {
     redirect("/");
   }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+  const canCreate = canManageLinks(workspace, "create");
+  const canEdit = canManageLinks(workspace, "edit");
+  const canDelete = canManageLinks(workspace, "delete");
+
+  const params = parseDashboardParams(await searchParams);
+  const isFiltered = params.q !== "" || params.tags.length > 0;
   
-  const userLinks = await getUserLinks(userId);
+  const [{ links: userLinks, nextCursor }, userTags, presets, domains, requestHeaders] = await Promise.all([
+    searchUserLinks({
+      workspace,
+      search: params.q,
+      tagNames: params.tags,
+      sort: params.sort,
+      order: params.order,
+      cursor: params.cursor,
+    }),
+    getUserTags(workspaceOwnerId(workspace)),
+    getUserUtmPresets(userId),
+    getWorkspaceDomains(workspace),
+    headers(),
+  ]);
+  const origin = `${requestHeaders.get("x-forwarded-proto") ?? "http"}://${requestHeaders.get("host")}`;
+  const hostnamesById = new Map(domains.map((domain) => [domain.id, domain.hostname]));
+  const verifiedDomains = domains
+    .filter((domain) => domain.verifiedAt)
+    .map((domain) => ({ id: domain.id, hostname: domain.hostname }));
+  const utmPresets = presets.map((preset) => ({
+    id: preset.id,
+    name: preset.name,
+    source: preset.source ?? undefined,
+    medium: preset.medium ?? undefined,
+    campaign: preset.campaign ?? undefined,
+    term: preset.term ?? undefined,
+    content: preset.content ?? undefined,
+  }));
+  const linkIds = userLinks.map((link) => link.id);
+  const [tagsByLink, rulesByLink, variantsByLink] = await Promise.all([
+    getTagsForLinks(linkIds),
+    getRedirectRulesForLinks(linkIds),
+    getVariantsForLinks(linkIds),
+  ]);
   
   return (
     <div className="container mx-auto py-8 px-4">
@@ -22,57 +100,227 @@ export default async function DashboardPage() {
           <div>
             <h1 className="text-3xl font-bold">Dashboard</h1>
             <p className="text-muted-foreground mt-2">
-              Manage your shortened links
+              {workspace.orgId ? "Manage your team's shortened links" : "Manage your shortened links"}
+              {workspace.role === "viewer" && " (read-only)"}
             </p>
           </div>
-          <CreateLinkDialog />
+          <div className="flex gap-2">
+            {isAdmin(userId) && (
+              <Button variant="outline" asChild>
+                <Link href="/dashboard/admin">
+                  <ShieldAlert className="w-4 h-4" />
+                  Admin
+                </Link>
+              </Button>
+            )}
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/settings">
+                <Settings className="w-4 h-4" />
+                Settings
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/domains">
+                <Globe className="w-4 h-4" />
+                Domains
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/trash">
+                <Trash2 className="w-4 h-4" />
+                Trash
+              </Link>
+            </Button>
+            {canCreate && <ImportLinksDialog />}
+            <Button variant="outline" asChild>
+              <a href="/dashboard/export?format=csv" download>
+                <Download className="w-4 h-4" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" asChild>
+              <a href="/dashboard/export?format=json" download>
+                <Download className="w-4 h-4" />
+                JSON
+              </a>
+            </Button>
+            {canCreate && <CreateLinkDialog utmPresets={utmPresets} domains={verifiedDomains} />}
+          </div>
         </div>
       </div>
       
+      <div className="mb-4 space-y-4">
+        <LinkListControls params={params} />
+        <TagFilter tags={userTags.map((userTag) => userTag.name)} params={params} />
+      </div>
+
       {userLinks.length === 0 ? (
         <Card>
           <CardHeader>
-            <CardTitle>No links yet</CardTitle>
+            <CardTitle>{isFiltered || params.cursor ? "No matching links" : "No links yet"}</CardTitle>
             <CardDescription>
-              Create your first shortened link to get started
+              {isFiltered || params.cursor
+                ? "Try a different search or clear the tag filters"
+                : canCreate
+                  ? "Create your first shortened link to get started"
+                  : "Links created in this workspace will appear here"}
             </CardDescription>
           </CardHeader>
         </Card>
       ) : (
         <div className="space-y-4">
-          <h2 className="text-xl font-semibold">Your Links</h2>
+          <h2 className="text-xl font-semibold">{workspace.orgId ? "Team Links" : "Your Links"}</h2>
           <div className="grid gap-4">
             {userLinks.map((link) => (
               <Card key={link.id}>
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <div>
-                      <CardTitle className="text-lg font-medium break-all">
-                        {link.shortCode}
+                      <CardTitle className="flex items-center gap-2 text-lg font-medium break-all">
+                        <Link href={`/dashboard/links/${link.id}`} className="hover:underline">
+                          {link.shortCode}
+                        </Link>
+                        <LinkStatusBadge link={link} />
                       </CardTitle>
                       <CardDescription className="break-all">
                         {link.url}
                       </CardDescription>
+                      {tagsByLink.has(link.id) && (
+                        <div className="mt-2 flex flex-wrap gap-1">
+                          {tagsByLink.get(link.id)!.map((name) => (
+                            <Badge key={name} variant="secondary">
+                              {name}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </div>
                     <div className="flex gap-2">
-                      <EditLinkDialog link={{ id: Number(link.id), url: link.url, shortCode: link.shortCode }} />
-                      <DeleteLinkDialog link={{ id: Number(link.id), url: link.url, shortCode: link.shortCode }} />
+                      <Button variant="outline" size="sm" asChild>
+                        <Link href={`/dashboard/links/${link.id}`} aria-label="View analytics">
+                          <BarChart3 className="w-4 h-4" />
+                        </Link>
+                      </Button>
+                      <QrCodeDialog shortCode={link.shortCode} customDomain={link.domainId ? hostnamesById.get(link.domainId) : null} />
+                      {canEdit && (
+                        <>
+                          <LinkVariantsDialog
+                            link={{
+                              id: Number(link.id),
+                              url: link.url,
+                              shortCode: link.shortCode,
+                              stickyVariants: link.stickyVariants,
+                              variants: (variantsByLink.get(link.id) ?? []).map(({ id, url, weight }) => ({ id, url, weight })),
+                            }}
+                          />
+                          <RedirectRulesDialog
+                            link={{
+                              id: Number(link.id),
+                              shortCode: link.shortCode,
+                              rules: rulesByLink.get(link.id) ?? [],
+                            }}
+                          />
+                          <SocialPreviewDialog
+                            link={{
+                              id: Number(link.id),
+                              shortCode: link.shortCode,
+                              ogTitle: link.ogTitle,
+                              ogDescription: link.ogDescription,
+                              ogImageUrl: link.ogImageUrl,
+                            }}
+                          />
+                          <AppLinksDialog
+                            link={{
+                              id: Number(link.id),
+                              shortCode: link.shortCode,
+                              iosAppUrl: link.iosAppUrl,
+                              iosStoreUrl: link.iosStoreUrl,
+                              androidAppUrl: link.androidAppUrl,
+                              androidStoreUrl: link.androidStoreUrl,
+                            }}
+                          />
+                          <EditLinkDialog
+                            link={{
+                              id: Number(link.id),
+                              url: link.url,
+                              shortCode: link.shortCode,
+                              activeFrom: link.activeFrom,
+                              placeholderUrl: link.placeholderUrl,
+                              expiresAt: link.expiresAt,
+                              maxClicks: link.maxClicks,
+                              hasPassword: link.passwordHash !== null,
+                              forcePreview: link.forcePreview,
+                              tags: tagsByLink.get(link.id) ?? [],
+                            }}
+                            utmPresets={utmPresets}
+                          />
+                        </>
+                      )}
+                      {canDelete && (
+                        <DeleteLinkDialog link={{ id: Number(link.id), url: link.url, shortCode: link.shortCode }} />
+                      )}
                     </div>
                   </div>
                 </CardHeader>
                 <CardContent>
                   <div className="flex flex-col gap-2 text-sm text-muted-foreground">
                     <div>
-                      Short Code: <span className="font-mono">/{link.shortCode}</span>
+                      Short URL: <span className="font-mono break-all">{getShortUrl(link.shortCode, origin, link.domainId ? hostnamesById.get(link.domainId) : null)}</span>
                     </div>
                     <div>
                       Created: {new Date(link.createdAt).toLocaleDateString()} at {new Date(link.createdAt).toLocaleTimeString()}
                     </div>
+                    <div>
+                      Clicks: {link.clickCount}{link.maxClicks !== null && ` / ${link.maxClicks}`}
+                    </div>
+                    {link.passwordHash && (
+                      <div>Password protected</div>
+                    )}
+                    {link.forcePreview && (
+                      <div>Shows a preview before redirecting</div>
+                    )}
+                    {variantsByLink.has(link.id) && (
+                      <div>
+                        Split test: {variantsByLink.get(link.id)!.map((variant) => `${variant.weight}%`).join(" / ")}
+                      </div>
+                    )}
+                    {rulesByLink.has(link.id) && (
+                      <div>
+                        Redirect rules: {rulesByLink.get(link.id)!.length}
+                      </div>
+                    )}
+                    {link.activeFrom && (
+                      <div>
+                        {link.activeFrom > new Date() ? "Goes live" : "Went live"}: {new Date(link.activeFrom).toLocaleDateString()} at {new Date(link.activeFrom).toLocaleTimeString()}
+                        {link.placeholderUrl && link.activeFrom > new Date() && ` (until then visitors go to ${link.placeholderUrl})`}
+                      </div>
+                    )}
+                    {link.expiresAt && (
+                      <div>
+                        Expires: {new Date(link.expiresAt).toLocaleDateString()} at {new Date(link.expiresAt).toLocaleTimeString()}
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             ))}
           </div>
+          {(params.cursor || nextCursor) && (
+            <div className="flex justify-between">
+              {params.cursor ? (
+                <Button variant="outline" asChild>
+                  <Link href={dashboardHref(params, { cursor: null })}>First page</Link>
+                </Button>
+              ) : (
+                <span />
+              )}
+              {nextCursor && (
+                <Button variant="outline" asChild>
+                  <Link href={dashboardHref(params, { cursor: nextCursor })}>Next page</Link>
+                </Button>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,290 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { insertApiKey, revokeApiKey } from "@/data/api-keys";
+import {
+  deleteWebhookEndpoint,
+  insertWebhookEndpoint,
+  processWebhookDeliveries,
+  queueTestWebhook,
+} from "@/data/webhooks";
+import type { WebhookDeliveryStatus } from "@/db/schema";
+import { generateApiKey } from "@/lib/api-keys";
+import { actionRateLimitError, RATE_LIMITS } from "@/lib/rate-limit";
+import { urlSchema } from "@/lib/link-schemas";
+import { WEBHOOK_EVENT_TYPES } from "@/lib/webhook-events";
+import { checkWebhookUrl, generateWebhookSecret } from "@/lib/webhooks";
+import { toWorkspace } from "@/lib/workspaces";
+
+const createApiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be at most 100 characters"),
+});
+
+const revokeApiKeySchema = z.object({
+  id: z.number(),
+});
+
+const createWebhookEndpointSchema = z.object({
+  url: urlSchema,
+  events: z
+    .array(z.enum(WEBHOOK_EVENT_TYPES))
+    .min(1, "Choose at least one event")
+    .transform((events) => [...new Set(events)]),
+});
+
+const webhookEndpointIdSchema = z.object({
+  id: z.number(),
+});
+
+interface CreateApiKeyInput {
+  name: string;
+}
+
+interface RevokeApiKeyInput {
+  id: number;
+}
+
+interface CreateWebhookEndpointInput {
+  url: string;
+  events: string[];
+}
+
+interface WebhookEndpointIdInput {
+  id: number;
+}
+
+type ActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * Server action to create a personal API key
+ * @param input - A name to identify the key
+ * @returns ActionResult with the plain text key, which is only ever shown once
+ */
+export async function createApiKeyAction(
+  input: CreateApiKeyInput
+): Promise<ActionResult<{ key: string }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = createApiKeySchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  try {
+    const { key, prefix, keyHash } = generateApiKey();
+    await insertApiKey({
+      userId,
+      name: validationResult.data.name,
+      prefix,
+      keyHash,
+    });
+    return { success: true, data: { key } };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to create API key" };
+  }
+}
+
+/**
+ * Server action to revoke a personal API key
+ * @param input - The API key id
+ * @returns ActionResult with success or error message
+ */
+export async function revokeApiKeyAction(
+  input: RevokeApiKeyInput
+): Promise<ActionResult<null>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = revokeApiKeySchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  try {
+    const revoked = await revokeApiKey(validationResult.data.id, userId);
+    if (!revoked) {
+      return { success: false, error: "API key not found or already revoked" };
+    }
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to revoke API key" };
+  }
+}
+
+/**
+ * Server action to add a webhook endpoint receiving the active workspace's link events
+ * @param input - The endpoint URL and the events it subscribes to
+ * @returns ActionResult with the signing secret, which is only ever shown once
+ */
+export async function createWebhookEndpointAction(
+  input: CreateWebhookEndpointInput
+): Promise<ActionResult<{ secret: string }>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = createWebhookEndpointSchema.safeParse({
+    ...input,
+    url: input.url.trim(),
+  });
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+  const validData = validationResult.data;
+
+  const unsafeReason = checkWebhookUrl(validData.url);
+  if (unsafeReason) {
+    return { success: false, error: unsafeReason };
+  }
+
+  try {
+    const secret = generateWebhookSecret();
+    await insertWebhookEndpoint(
+      {
+        url: validData.url,
+        secret,
+        events: validData.events,
+      },
+      workspace
+    );
+    return { success: true, data: { secret } };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to add webhook" };
+  }
+}
+
+/**
+ * Server action to delete a webhook endpoint along with its delivery log
+ * @param input - The endpoint id
+ * @returns ActionResult with success or error message
+ */
+export async function deleteWebhookEndpointAction(
+  input: WebhookEndpointIdInput
+): Promise<ActionResult<null>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = webhookEndpointIdSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  try {
+    const deleted = await deleteWebhookEndpoint(validationResult.data.id, workspace);
+    if (!deleted) {
+      return { success: false, error: "Webhook not found" };
+    }
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to delete webhook" };
+  }
+}
+
+/**
+ * Server action to send a test event to a webhook endpoint straight away
+ * @param input - The endpoint id
+ * @returns ActionResult with the outcome of the first attempt; failures are retried like any delivery
+ */
+export async function sendTestWebhookAction(
+  input: WebhookEndpointIdInput
+): Promise<ActionResult<{ status: WebhookDeliveryStatus; responseStatus: number | null; error: string | null }>> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return { success: false, error: "Unauthorized" };
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const rateLimitError = await actionRateLimitError(RATE_LIMITS.dashboardAction, userId);
+  if (rateLimitError) {
+    return { success: false, error: rateLimitError };
+  }
+
+  const validationResult = webhookEndpointIdSchema.safeParse(input);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: validationResult.error.issues[0].message,
+    };
+  }
+
+  try {
+    const deliveryId = await queueTestWebhook(validationResult.data.id, workspace);
+    if (deliveryId === null) {
+      return { success: false, error: "Webhook not found" };
+    }
+    const [delivery] = await processWebhookDeliveries({ ids: [deliveryId] });
+    if (!delivery) {
+      return { success: false, error: "Failed to send test event" };
+    }
+    return {
+      success: true,
+      data: { status: delivery.status, responseStatus: delivery.responseStatus, error: delivery.error },
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to send test event" };
+  }
+}
@@ -0,0 +1,221 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { getUserApiKeys } from "@/data/api-keys";
+import { getUserWebhookDeliveries, getUserWebhookEndpoints } from "@/data/webhooks";
+import type { WebhookDeliveryStatus } from "@/db/schema";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CreateApiKeyDialog } from "@/components/create-api-key-dialog";
+import { RevokeApiKeyDialog } from "@/components/revoke-api-key-dialog";
+import { CreateWebhookDialog } from "@/components/create-webhook-dialog";
+import { DeleteWebhookDialog } from "@/components/delete-webhook-dialog";
+import { SendTestWebhookButton } from "@/components/send-test-webhook-button";
+import { WEBHOOK_EVENT_LABELS } from "@/lib/webhook-events";
+import { canManageLinks, toWorkspace, workspaceOwnerId } from "@/lib/workspaces";
+
+const DELIVERY_STATUS_BADGES: Record<
+  WebhookDeliveryStatus,
+  { label: string; variant: "default" | "secondary" | "destructive" }
+> = {
+  succeeded: { label: "Delivered", variant: "default" },
+  pending: { label: "Retrying", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+export default async function SettingsPage() {
+  const { userId, orgId, orgRole } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+  // API keys are personal, while webhooks belong to the active workspace like its links
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+  const canManageWebhooks = canManageLinks(workspace, "manageWebhooks");
+
+  const [apiKeys, webhookEndpoints, webhookDeliveries] = await Promise.all([
+    getUserApiKeys(userId),
+    getUserWebhookEndpoints(workspaceOwnerId(workspace)),
+    getUserWebhookDeliveries(workspaceOwnerId(workspace)),
+  ]);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8 space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard">
+            <ArrowLeft className="w-4 h-4" />
+            Back to dashboard
+          </Link>
+        </Button>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Settings</h1>
+            <p className="text-muted-foreground mt-2">
+              Manage API keys for the <span className="font-mono">/api/v1</span> REST API and webhooks for link events
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {canManageWebhooks && <CreateWebhookDialog />}
+            <CreateApiKeyDialog />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">API Keys</h2>
+        <p className="text-sm text-muted-foreground">
+          Send a key as <span className="font-mono">Authorization: Bearer &lt;key&gt;</span>. Keys have full access to your links.
+        </p>
+        {apiKeys.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>No API keys yet</CardTitle>
+              <CardDescription>
+                Create a key to manage your links from scripts and CI jobs
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {apiKeys.map((apiKey) => (
+              <Card key={apiKey.id}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-lg font-medium">{apiKey.name}</CardTitle>
+                      <CardDescription className="font-mono">{apiKey.prefix}…</CardDescription>
+                    </div>
+                    {apiKey.revokedAt ? (
+                      <span className="text-sm text-destructive">Revoked</span>
+                    ) : (
+                      <RevokeApiKeyDialog apiKey={{ id: apiKey.id, name: apiKey.name, prefix: apiKey.prefix }} />
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-col gap-2 text-sm text-muted-foreground">
+                    <div>
+                      Created: {new Date(apiKey.createdAt).toLocaleDateString()} at {new Date(apiKey.createdAt).toLocaleTimeString()}
+                    </div>
+                    <div>
+                      Last used: {apiKey.lastUsedAt ? `${new Date(apiKey.lastUsedAt).toLocaleDateString()} at ${new Date(apiKey.lastUsedAt).toLocaleTimeString()}` : "Never"}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4 mt-8">
+        <h2 className="text-xl font-semibold">Webhooks</h2>
+        <p className="text-sm text-muted-foreground">
+          Each request carries an <span className="font-mono">X-Webhook-Signature</span> header: <span className="font-mono">sha256=</span> followed by the HMAC-SHA256 of <span className="font-mono">&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;</span> keyed with the endpoint&apos;s secret. Failed deliveries are retried with exponential backoff for a few hours.
+        </p>
+        {webhookEndpoints.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>No webhooks yet</CardTitle>
+              <CardDescription>
+                Add a webhook to be notified when this workspace&apos;s links are created, edited, deleted, clicked or expire
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {webhookEndpoints.map((endpoint) => (
+              <Card key={endpoint.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <CardTitle className="text-lg font-medium font-mono break-all">{endpoint.url}</CardTitle>
+                      <CardDescription>
+                        Created {new Date(endpoint.createdAt).toLocaleDateString()}
+                      </CardDescription>
+                    </div>
+                    {canManageWebhooks && (
+                      <div className="flex items-start gap-2">
+                        <SendTestWebhookButton endpointId={endpoint.id} />
+                        <DeleteWebhookDialog endpoint={{ id: endpoint.id, url: endpoint.url }} />
+                      </div>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-2">
+                    {endpoint.events.map((event) => (
+                      <Badge key={event} variant="outline" className="font-mono">
+                        {event}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {webhookDeliveries.length > 0 && (
+        <div className="space-y-4 mt-8">
+          <h2 className="text-xl font-semibold">Recent Deliveries</h2>
+          <Card>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2 font-medium">Time</th>
+                    <th className="p-2 font-medium">Event</th>
+                    <th className="p-2 font-medium">Endpoint</th>
+                    <th className="p-2 font-medium">Status</th>
+                    <th className="p-2 font-medium">Response</th>
+                    <th className="p-2 font-medium">Attempts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {webhookDeliveries.map((delivery) => {
+                    const badge = DELIVERY_STATUS_BADGES[delivery.status];
+                    return (
+                      <tr key={delivery.id} className="border-b last:border-0 align-top">
+                        <td className="p-2 text-muted-foreground whitespace-nowrap">
+                          {new Date(delivery.createdAt).toLocaleString()}
+                        </td>
+                        <td className="p-2" title={delivery.event}>
+                          {WEBHOOK_EVENT_LABELS[delivery.event]}
+                        </td>
+                        <td className="p-2 font-mono break-all">{delivery.endpointUrl}</td>
+                        <td className="p-2">
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                          {delivery.status === "pending" && delivery.attempts > 0 && (
+                            <div className="text-muted-foreground mt-1 whitespace-nowrap">
+                              Next try {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                            </div>
+                          )}
+                        </td>
+                        <td className="p-2">
+                          {delivery.responseStatus ? (
+                            <span className="font-mono">{delivery.responseStatus}</span>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                          {delivery.error && (
+                            <div className="text-destructive mt-1 break-all">{delivery.error}</div>
+                          )}
+                        </td>
+                        <td className="p-2 text-muted-foreground">{delivery.attempts}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
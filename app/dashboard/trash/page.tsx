@@ -0,0 +1,88 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { getTrashedLinks } from "@/data/links";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { PurgeLinkDialog } from "@/components/purge-link-dialog";
+import { RestoreLinkButton } from "@/components/restore-link-button";
+import { getPurgeDate, getTrashRetentionDays } from "@/lib/trash";
+import { canManageLinks, toWorkspace } from "@/lib/workspaces";
+
+export default async function TrashPage() {
+  const { userId, orgId, orgRole } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+  const workspace = toWorkspace({ userId, orgId, orgRole });
+
+  const trashedLinks = await getTrashedLinks(workspace);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8 space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard">
+            <ArrowLeft className="w-4 h-4" />
+            Back to dashboard
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground mt-2">
+            Deleted links stop redirecting straight away and are permanently deleted after {getTrashRetentionDays()} days. Their short codes stay reserved until then.
+          </p>
+        </div>
+      </div>
+
+      {trashedLinks.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>The trash is empty</CardTitle>
+            <CardDescription>
+              Links you delete will appear here
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {trashedLinks.map((link) => (
+            <Card key={link.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-lg font-medium break-all">{link.shortCode}</CardTitle>
+                    <CardDescription className="break-all">
+                      {link.url}
+                    </CardDescription>
+                  </div>
+                  {canManageLinks(workspace, "delete") && (
+                    <div className="flex gap-2">
+                      <RestoreLinkButton linkId={link.id} />
+                      <PurgeLinkDialog link={{ id: link.id, shortCode: link.shortCode }} />
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col gap-2 text-sm text-muted-foreground">
+                  <div>
+                    Deleted: {new Date(link.deletedAt!).toLocaleDateString()} at {new Date(link.deletedAt!).toLocaleTimeString()}
+                  </div>
+                  <div>
+                    Permanently deleted on: {getPurgeDate(link.deletedAt!).toLocaleDateString()}
+                  </div>
+                  <div>
+                    Clicks: {link.clickCount}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { resolveShortLink } from "@/data/short-links";
+import { checkShortLinkRateLimit, shortLinkNotFoundResponse } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/visitor";
+import { linkComingSoonResponse, linkExpiredResponse, linkPreviewResponse } from "@/lib/link-pages";
+import { isLinkExpired, isLinkScheduled } from "@/lib/link-status";
+import { getCustomDomainHost } from "@/lib/custom-domains";
+import { getShortPath } from "@/lib/short-url";
+
+/**
+ * GET handler showing where a short link goes without redirecting or counting a click
+ * @param request - The incoming request
+ * @param params - Route parameters containing the shortcode
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shortcode: string }> }
+) {
+  const { shortcode } = await params;
+
+  const ip = getClientIp(request);
+  const throttled = await checkShortLinkRateLimit(ip);
+  if (throttled) {
+    return throttled;
+  }
+
+  const customDomain = getCustomDomainHost(request.headers.get("host"));
+  const resolved = await resolveShortLink(shortcode, customDomain);
+  if (!resolved) {
+    return shortLinkNotFoundResponse(ip);
+  }
+  const { link, rules, variants } = resolved;
+
+  if (isLinkExpired(link)) {
+    return linkExpiredResponse(link.shortCode);
+  }
+
+  // The destination stays under wraps until launch
+  if (isLinkScheduled(link)) {
+    return linkComingSoonResponse(link.shortCode, link.activeFrom!);
+  }
+
+  return linkPreviewResponse(
+    link,
+    rules.length > 0 || variants.length > 0,
+    getShortPath(link.shortCode, customDomain !== null)
+  );
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import QRCode from "qrcode";
+import { z } from "zod";
+import { getLinkByShortCode } from "@/data/links";
+import { checkShortLinkRateLimit, shortLinkNotFoundResponse } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/visitor";
+import { getShortUrl } from "@/lib/short-url";
+import { getCustomDomainHost } from "@/lib/custom-domains";
+
+const hexColorSchema = z
+  .string()
+  .regex(/^#?([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/, "Colours must be hex, e.g. 000000 or #000000ff")
+  .transform((value) => (value.startsWith("#") ? value : `#${value}`));
+
+const qrOptionsSchema = z.object({
+  format: z.enum(["svg", "png"]).default("svg"),
+  size: z.coerce.number().int().min(64).max(2048).default(512),
+  margin: z.coerce.number().int().min(0).max(16).default(4),
+  ecc: z.enum(["L", "M", "Q", "H"]).default("M"),
+  fg: hexColorSchema.default("#000000"),
+  bg: hexColorSchema.default("#ffffff"),
+  download: z.enum(["0", "1"]).default("0"),
+});
+
+/**
+ * GET handler rendering a QR code for a short link
+ * @param request - The incoming request; supports format, size, margin, ecc, fg, bg and download query params
+ * @param params - Route parameters containing the shortcode
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shortcode: string }> }
+) {
+  const { shortcode } = await params;
+
+  const validationResult = qrOptionsSchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!validationResult.success) {
+    const issue = validationResult.error.issues[0];
+    return NextResponse.json(
+      { error: `Invalid ${issue.path.join(".")}: ${issue.message}` },
+      { status: 400 }
+    );
+  }
+  const options = validationResult.data;
+
+  const ip = getClientIp(request);
+  const throttled = await checkShortLinkRateLimit(ip);
+  if (throttled) {
+    return throttled;
+  }
+
+  const customDomain = getCustomDomainHost(request.headers.get("host"));
+  const link = await getLinkByShortCode(shortcode, customDomain);
+  if (!link) {
+    return shortLinkNotFoundResponse(ip);
+  }
+
+  const shortUrl = getShortUrl(link.shortCode, request.nextUrl.origin, customDomain);
+  const renderOptions = {
+    width: options.size,
+    margin: options.margin,
+    errorCorrectionLevel: options.ecc,
+    color: { dark: options.fg, light: options.bg },
+  };
+
+  const headers = new Headers({ "Cache-Control": "public, max-age=3600" });
+  if (options.download === "1") {
+    headers.set("Content-Disposition", `attachment; filename="${link.shortCode}-qr.${options.format}"`);
+  }
+
+  if (options.format === "png") {
+    const png = await QRCode.toBuffer(shortUrl, { ...renderOptions, type: "png" });
+    headers.set("Content-Type", "image/png");
+    return new NextResponse(new Uint8Array(png), { headers });
+  }
+
+  const svg = await QRCode.toString(shortUrl, { ...renderOptions, type: "svg" });
+  headers.set("Content-Type", "image/svg+xml; charset=utf-8");
+  return new NextResponse(svg, { headers });
+}
@@ -1,8 +1,252 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getLinkByShortCode } from "@/data/links";
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  claimLinkExpiryNotification,
+  getLinkById,
+  incrementLinkClickCount,
+  insertClick,
+  recordFailedUnlockAttempt,
+  resetFailedUnlockAttempts,
+  uncountLinkClick,
+} from "@/data/links";
+import { resolveShortLink } from "@/data/short-links";
+import { dispatchWebhookEvent } from "@/data/webhooks";
+import type { Link } from "@/db/schema";
+import { getAppLaunchTarget } from "@/lib/app-links";
+import type { CachedShortLink } from "@/lib/link-cache";
+import { getClientIp, hashIp } from "@/lib/visitor";
+import { escapeHtml, htmlResponse } from "@/lib/html";
+import { isLinkExpired, isLinkScheduled } from "@/lib/link-status";
+import {
+  PREVIEW_SUFFIX,
+  hasSocialPreview,
+  linkAppLauncherResponse,
+  linkComingSoonResponse,
+  linkExpiredResponse,
+  linkPreviewResponse,
+  linkSocialCardResponse,
+} from "@/lib/link-pages";
+import { verifyPassword } from "@/lib/password";
+import { selectRedirectRule } from "@/lib/redirect-rules";
+import { VARIANT_COOKIE_MAX_AGE, chooseVariant, variantCookieName } from "@/lib/variants";
+import { checkShortLinkRateLimit, shortLinkNotFoundResponse } from "@/lib/rate-limit";
+import { getCustomDomainHost } from "@/lib/custom-domains";
+import { getShortPath, getShortUrl } from "@/lib/short-url";
+import { isLinkUnfurler } from "@/lib/user-agent";
+import { linkEventData } from "@/lib/webhooks";
+import { linkOwnerId } from "@/lib/workspaces";
+
+function unlockResponse(shortCode: string, error?: string, status = 200) {
+  return htmlResponse({
+    title: "Password required",
+    status,
+    body: `<h1>Password required</h1>
+<p>The short link <span class="mono">/${escapeHtml(shortCode)}</span> is password protected.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+<form method="post">
+<label for="password">Password</label>
+<input id="password" name="password" type="password" required autofocus autocomplete="current-password">
+<button type="submit">Continue</button>
+</form>`,
+  });
+}
+
+function lockedResponse(shortCode: string, lockedUntil: Date) {
+  const retryAfter = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+  return htmlResponse({
+    title: "Too many attempts",
+    status: 429,
+    headers: { "Retry-After": String(retryAfter) },
+    body: `<h1>Too many attempts</h1>
+<p>Too many incorrect passwords were entered for <span class="mono">/${escapeHtml(shortCode)}</span>. Please try again in ${Math.ceil(retryAfter / 60)} minute(s).</p>`,
+  });
+}
+
+/**
+ * Reports an expired link to its owner's webhooks after the response is sent, once per expiry
+ * @param link - The expired link
+ */
+function notifyLinkExpired(link: Link) {
+  after(async () => {
+    try {
+      if (await claimLinkExpiryNotification(link.id)) {
+        await dispatchWebhookEvent(linkOwnerId(link), "link.expired", linkEventData(link));
+      }
+    } catch (error) {
+      console.error("Failed to report link expiry:", error);
+    }
+  });
+}
+
+/**
+ * Sends visitors of a link that isn't live yet to its placeholder, or shows the coming soon page.
+ * Nothing is counted, so early visits don't use up a click limit.
+ * @param link - The scheduled link
+ */
+function scheduledLinkResponse(link: Link) {
+  if (link.placeholderUrl) {
+    return NextResponse.redirect(link.placeholderUrl, 307);
+  }
+  return linkComingSoonResponse(link.shortCode, link.activeFrom!);
+}
+
+/**
+ * Counts the visit, records the click and redirects to the destination, or opens the link's app
+ * @param request - The incoming request
+ * @param resolved - The link being visited, with its redirect rules and variants
+ * @param status - Redirect status (303 after a form submission)
+ * @param shortPath - The path the link is served from on the current host
+ * @param onStale - For links read from the cache: answers the visit again from the database when
+ * the counted row shows the cached copy is out of date
+ */
+async function redirectToLink(
+  request: NextRequest,
+  { link, rules, variants }: CachedShortLink,
+  status: 303 | 307,
+  shortPath: string,
+  onStale?: () => Promise<Response>
+): Promise<Response> {
+  // Count the redirect against the link's limits; null means another request got the last click
+  const countedLink = await incrementLinkClickCount(link.id);
+  // The count comes back with the current row, so checking a cached copy costs no extra query
+  if (onStale && countedLink && countedLink.updatedAt.getTime() !== link.updatedAt.getTime()) {
+    await uncountLinkClick(link.id);
+    return onStale();
+  }
+  if (!countedLink) {
+    // The link may have changed since it was read, so only report an expiry that really happened
+    const current = await getLinkById(link.id);
+    if (!current || current.deletedAt) {
+      return shortLinkNotFoundResponse(getClientIp(request));
+    }
+    if (isLinkExpired(current)) {
+      notifyLinkExpired(current);
+    }
+    return linkExpiredResponse(current.shortCode);
+  }
+  // This visit used up the last click, so the link has just expired
+  if (countedLink.maxClicks !== null && countedLink.clickCount >= countedLink.maxClicks) {
+    notifyLinkExpired(countedLink);
+  }
+
+  const userAgent = request.headers.get("user-agent");
+  const acceptLanguage = request.headers.get("accept-language");
+
+  // The first matching rule overrides the link's own destination, otherwise split by weight
+  const rule = selectRedirectRule(rules, { userAgent, acceptLanguage });
+  const cookieName = variantCookieName(link.id);
+  const variant = rule
+    ? undefined
+    : chooseVariant(
+        variants,
+        link.stickyVariants ? request.cookies.get(cookieName)?.value : undefined
+      );
+
+  // Record the click after the response is sent so the redirect isn't delayed
+  const ip = getClientIp(request);
+  const click = {
+    linkId: link.id,
+    referrer: request.headers.get("referer"),
+    userAgent,
+    acceptLanguage,
+    ipHash: ip ? hashIp(ip) : null,
+    variantId: variant?.id ?? null,
+  };
+  after(async () => {
+    try {
+      const recorded = await insertClick(click);
+      // The IP hash stays private to the analytics
+      await dispatchWebhookEvent(linkOwnerId(link), "link.clicked", {
+        ...linkEventData(countedLink),
+        click: {
+          id: recorded.id,
+          clickedAt: recorded.clickedAt,
+          referrer: recorded.referrer,
+          userAgent: recorded.userAgent,
+          acceptLanguage: recorded.acceptLanguage,
+          variantId: recorded.variantId,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to record click:", error);
+    }
+  });
+
+  // Phones and tablets try the link's app first; the click is counted either way
+  const destination = rule?.url ?? variant?.url ?? link.url;
+  const appLaunch = getAppLaunchTarget(link, userAgent);
+  const response = appLaunch
+    ? linkAppLauncherResponse(appLaunch, destination)
+    : NextResponse.redirect(destination, status);
+  if (variant && link.stickyVariants) {
+    response.cookies.set(cookieName, String(variant.id), {
+      path: shortPath,
+      maxAge: VARIANT_COOKIE_MAX_AGE,
+      httpOnly: true,
+      sameSite: "lax",
+    });
+  }
+  return response;
+}
 
 /**
- * GET handler for redirecting short codes to full URLs
+ * Answers a visit to a resolved link: the redirect itself, or the page shown instead of it
+ * @param request - The incoming request
+ * @param resolved - The link being visited, with its redirect rules and variants
+ * @param customDomain - The custom domain the request arrived on, or null for the app's own host
+ * @param previewRequested - Whether the short code had the "+" preview suffix
+ * @param onStale - See redirectToLink
+ */
+async function visitLink(
+  request: NextRequest,
+  resolved: CachedShortLink,
+  customDomain: string | null,
+  previewRequested: boolean,
+  onStale?: () => Promise<Response>
+) {
+  const { link, rules, variants } = resolved;
+
+  if (isLinkExpired(link)) {
+    notifyLinkExpired(link);
+    return linkExpiredResponse(link.shortCode);
+  }
+
+  // Chat apps and social networks get the owner's card instead of following the redirect
+  if (!previewRequested && hasSocialPreview(link) && isLinkUnfurler(request.headers.get("user-agent"))) {
+    return linkSocialCardResponse(
+      link,
+      getShortUrl(link.shortCode, request.nextUrl.origin, customDomain)
+    );
+  }
+
+  if (isLinkScheduled(link)) {
+    return scheduledLinkResponse(link);
+  }
+
+  // Protected links already stop at the unlock form, so a forced preview only applies to public ones
+  if (previewRequested || (link.forcePreview && !link.passwordHash)) {
+    return linkPreviewResponse(
+      link,
+      rules.length > 0 || variants.length > 0,
+      getShortPath(link.shortCode, customDomain !== null)
+    );
+  }
+
+  // Protected links show an unlock form that posts back to this route
+  if (link.passwordHash) {
+    return unlockResponse(link.shortCode);
+  }
+
+  return redirectToLink(
+    request,
+    resolved,
+    307,
+    getShortPath(link.shortCode, customDomain !== null),
+    onStale
+  );
+}
+
+/**
+ * GET handler for redirecting short codes to full URLs, or previewing them with a "+" suffix
  * @param request - The incoming request
  * @param params - Route parameters containing the shortcode
  */
@@ -11,18 +255,87 @@ export async function GET(
   { params }: { params: Promise<{ shortcode: string }> }
 ) {
   const { shortcode } = await params;
+  const previewRequested = shortcode.endsWith(PREVIEW_SUFFIX);
+  const shortCode = previewRequested ? shortcode.slice(0, -PREVIEW_SUFFIX.length) : shortcode;
 
-  // Fetch the link from the database
-  const link = await getLinkByShortCode(shortcode);
+  const ip = getClientIp(request);
+  const throttled = await checkShortLinkRateLimit(ip);
+  if (throttled) {
+    return throttled;
+  }
+
+  // Custom domains are rewritten here by the proxy, so the Host header says which domain to look in
+  const customDomain = getCustomDomainHost(request.headers.get("host"));
+  const resolved = await resolveShortLink(shortCode, customDomain);
 
   // If link not found, return 404
-  if (!link) {
-    return NextResponse.json(
-      { error: "Link not found" },
-      { status: 404 }
-    );
+  if (!resolved) {
+    return shortLinkNotFoundResponse(ip);
+  }
+
+  // A cached link that turns out to be out of date is visited again as it is now
+  return visitLink(request, resolved, customDomain, previewRequested, async () => {
+    const current = await resolveShortLink(shortCode, customDomain, { fresh: true });
+    return current
+      ? visitLink(request, current, customDomain, previewRequested)
+      : shortLinkNotFoundResponse(ip);
+  });
+}
+
+/**
+ * POST handler for unlocking password-protected short codes
+ * @param request - The incoming request with the submitted password form
+ * @param params - Route parameters containing the shortcode
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ shortcode: string }> }
+) {
+  const { shortcode } = await params;
+
+  const ip = getClientIp(request);
+  const throttled = await checkShortLinkRateLimit(ip);
+  if (throttled) {
+    return throttled;
+  }
+
+  const customDomain = getCustomDomainHost(request.headers.get("host"));
+  // Read fresh so password changes and lockouts from other instances are always seen
+  const resolved = await resolveShortLink(shortcode, customDomain, { fresh: true });
+  if (!resolved) {
+    return shortLinkNotFoundResponse(ip);
+  }
+  const { link } = resolved;
+  const shortPath = getShortPath(link.shortCode, customDomain !== null);
+
+  if (isLinkExpired(link)) {
+    notifyLinkExpired(link);
+    return linkExpiredResponse(link.shortCode);
+  }
+
+  if (isLinkScheduled(link)) {
+    return scheduledLinkResponse(link);
+  }
+
+  if (!link.passwordHash) {
+    return redirectToLink(request, resolved, 303, shortPath);
+  }
+
+  if (link.unlockLockedUntil && link.unlockLockedUntil > new Date()) {
+    return lockedResponse(link.shortCode, link.unlockLockedUntil);
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const password = formData?.get("password");
+
+  if (typeof password !== "string" || !(await verifyPassword(password, link.passwordHash))) {
+    const updatedLink = await recordFailedUnlockAttempt(link.id);
+    if (updatedLink?.unlockLockedUntil && updatedLink.unlockLockedUntil > new Date()) {
+      return lockedResponse(link.shortCode, updatedLink.unlockLockedUntil);
+    }
+    return unlockResponse(link.shortCode, "Incorrect password", 401);
   }
 
-  // Redirect to the full URL
-  return NextResponse.redirect(link.url, 307);
+  await resetFailedUnlockAttempts(link.id);
+  return redirectToLink(request, resolved, 303, shortPath);
 }
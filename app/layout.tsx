@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import {
   ClerkProvider,
+  OrganizationSwitcher,
   SignInButton,
   SignUpButton,
   SignedIn,
@@ -56,6 +57,10 @@ export default function RootLayout({
                 </SignUpButton>
               </SignedOut>
               <SignedIn>
+                <OrganizationSwitcher
+                  afterSelectOrganizationUrl="/dashboard"
+                  afterSelectPersonalUrl="/dashboard"
+                />
                 <UserButton />
               </SignedIn>
             </div>
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { addDomainAction } from "@/app/dashboard/domains/actions";
+
+export function AddDomainDialog() {
+  const [open, setOpen] = useState(false);
+  const [hostname, setHostname] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await addDomainAction({ hostname });
+      if (result.success) {
+        setHostname("");
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>Add Domain</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Add Domain</DialogTitle>
+          <DialogDescription>
+            Use a domain you own for short links. You&apos;ll prove ownership with a DNS TXT record next.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="hostname">Domain</Label>
+              <Input
+                id="hostname"
+                type="text"
+                placeholder="go.example.com"
+                value={hostname}
+                onChange={(e) => setHostname(e.target.value)}
+                required
+                disabled={isLoading}
+                maxLength={253}
+              />
+              <p className="text-sm text-muted-foreground">
+                A subdomain you don&apos;t use for anything else works best
+              </p>
+            </div>
+            {error && (
+              <div className="text-sm text-destructive">{error}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Adding..." : "Add Domain"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Smartphone } from "lucide-react";
+import { saveAppLinks } from "@/app/dashboard/actions";
+
+interface AppLinksDialogProps {
+  link: {
+    id: number;
+    shortCode: string;
+    iosAppUrl: string | null;
+    iosStoreUrl: string | null;
+    androidAppUrl: string | null;
+    androidStoreUrl: string | null;
+  };
+}
+
+export function AppLinksDialog({ link }: AppLinksDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [iosAppUrl, setIosAppUrl] = useState(link.iosAppUrl ?? "");
+  const [iosStoreUrl, setIosStoreUrl] = useState(link.iosStoreUrl ?? "");
+  const [androidAppUrl, setAndroidAppUrl] = useState(link.androidAppUrl ?? "");
+  const [androidStoreUrl, setAndroidStoreUrl] = useState(link.androidStoreUrl ?? "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Reopening discards unsaved edits
+    if (nextOpen) {
+      setIosAppUrl(link.iosAppUrl ?? "");
+      setIosStoreUrl(link.iosStoreUrl ?? "");
+      setAndroidAppUrl(link.androidAppUrl ?? "");
+      setAndroidStoreUrl(link.androidStoreUrl ?? "");
+      setError("");
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await saveAppLinks({
+        linkId: link.id,
+        iosAppUrl,
+        iosStoreUrl,
+        androidAppUrl,
+        androidStoreUrl,
+      });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="App links">
+          <Smartphone className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>App Links</DialogTitle>
+          <DialogDescription>
+            Open your app when <span className="font-mono">/{link.shortCode}</span> is visited on a
+            phone or tablet. If the app isn&apos;t installed, visitors go to the store listing, or
+            to the destination when there isn&apos;t one.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="iosAppUrl">iOS app link</Label>
+              <Input
+                id="iosAppUrl"
+                type="text"
+                placeholder="myapp://products/42"
+                value={iosAppUrl}
+                onChange={(e) => setIosAppUrl(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="iosStoreUrl">App Store URL (optional)</Label>
+              <Input
+                id="iosStoreUrl"
+                type="url"
+                placeholder="https://apps.apple.com/app/id123456789"
+                value={iosStoreUrl}
+                onChange={(e) => setIosStoreUrl(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="androidAppUrl">Android app link</Label>
+              <Input
+                id="androidAppUrl"
+                type="text"
+                placeholder="myapp://products/42"
+                value={androidAppUrl}
+                onChange={(e) => setAndroidAppUrl(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="androidStoreUrl">Play Store URL (optional)</Label>
+              <Input
+                id="androidStoreUrl"
+                type="url"
+                placeholder="https://play.google.com/store/apps/details?id=com.example.app"
+                value={androidStoreUrl}
+                onChange={(e) => setAndroidStoreUrl(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              App links can use your app&apos;s URL scheme or a universal link on your own domain.
+              Leave a platform blank to redirect it as usual.
+            </p>
+            {error && (
+              <div className="text-sm text-destructive">{error}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
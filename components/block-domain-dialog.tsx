@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { blockDomainAction } from "@/app/dashboard/admin/actions";
+
+export function BlockDomainDialog() {
+  const [open, setOpen] = useState(false);
+  const [domain, setDomain] = useState("");
+  const [reason, setReason] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await blockDomainAction({ domain, reason: reason || undefined });
+      if (result.success) {
+        setDomain("");
+        setReason("");
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>Block Domain</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Block Domain</DialogTitle>
+          <DialogDescription>
+            New links, rules and variants can&apos;t point to this domain or any of its subdomains.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="domain">Domain</Label>
+              <Input
+                id="domain"
+                type="text"
+                placeholder="example.com"
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+                required
+                disabled={isLoading}
+                maxLength={253}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="reason">Reason (optional)</Label>
+              <Input
+                id="reason"
+                type="text"
+                placeholder="Known phishing site"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                disabled={isLoading}
+                maxLength={200}
+              />
+              <p className="text-sm text-muted-foreground">
+                Shown to users whose link is rejected
+              </p>
+            </div>
+            {error && (
+              <div className="text-sm text-destructive">{error}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Blocking..." : "Block Domain"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
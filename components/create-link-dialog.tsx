@@ -14,12 +14,32 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { parseTagList } from "@/lib/tags";
+import type { UtmParams } from "@/lib/utm";
+import { UtmBuilder, type UtmPresetOption } from "@/components/utm-builder";
+import { ScheduleFields, fromScheduleValue, toScheduleValue } from "@/components/schedule-fields";
 import { createLink } from "@/app/dashboard/actions";
 
-export function CreateLinkDialog() {
+const SELECT_CLASS_NAME =
+  "border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
+
+interface CreateLinkDialogProps {
+  utmPresets: UtmPresetOption[];
+  // Verified custom domains the link can be served from
+  domains: { id: number; hostname: string }[];
+}
+
+export function CreateLinkDialog({ utmPresets, domains }: CreateLinkDialogProps) {
   const [open, setOpen] = useState(false);
   const [url, setUrl] = useState("");
+  const [domainId, setDomainId] = useState("");
   const [shortCode, setShortCode] = useState("");
+  const [utm, setUtm] = useState<UtmParams | null>(null);
+  const [tags, setTags] = useState("");
+  const [schedule, setSchedule] = useState(() => toScheduleValue());
+  const [maxClicks, setMaxClicks] = useState("");
+  const [password, setPassword] = useState("");
+  const [forcePreview, setForcePreview] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const router = useRouter();
@@ -30,12 +50,29 @@ export function CreateLinkDialog() {
     setIsLoading(true);
 
     try {
-      const result = await createLink({ url, shortCode });
+      const result = await createLink({
+        url,
+        domainId: domainId ? Number(domainId) : undefined,
+        shortCode: shortCode || undefined,
+        ...fromScheduleValue(schedule),
+        maxClicks: maxClicks ? Number(maxClicks) : null,
+        tags: parseTagList(tags),
+        utm: utm ?? undefined,
+        password: password || undefined,
+        forcePreview,
+      });
 
       if (result.success) {
         // Reset form and close dialog
         setUrl("");
+        setDomainId("");
         setShortCode("");
+        setUtm(null);
+        setTags("");
+        setSchedule(toScheduleValue());
+        setMaxClicks("");
+        setPassword("");
+        setForcePreview(false);
         setOpen(false);
         // Refresh the page to show the new link
         router.refresh();
@@ -58,7 +95,7 @@ export function CreateLinkDialog() {
         <DialogHeader>
           <DialogTitle>Create Shortened Link</DialogTitle>
           <DialogDescription>
-            Enter a URL and custom short code to create your shortened link.
+            Enter a URL and an optional custom short code to create your shortened link.
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
@@ -75,15 +112,43 @@ export function CreateLinkDialog() {
                 disabled={isLoading}
               />
             </div>
+            <UtmBuilder
+              url={url}
+              value={utm}
+              onChange={setUtm}
+              presets={utmPresets}
+              disabled={isLoading}
+            />
+            {domains.length > 0 && (
+              <div className="grid gap-2">
+                <Label htmlFor="domainId">Domain</Label>
+                <select
+                  id="domainId"
+                  className={SELECT_CLASS_NAME}
+                  value={domainId}
+                  onChange={(e) => setDomainId(e.target.value)}
+                  disabled={isLoading}
+                >
+                  <option value="">This site</option>
+                  {domains.map((domain) => (
+                    <option key={domain.id} value={domain.id}>
+                      {domain.hostname}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-muted-foreground">
+                  Short codes only need to be unique on their domain. The domain can&apos;t be changed later.
+                </p>
+              </div>
+            )}
             <div className="grid gap-2">
-              <Label htmlFor="shortCode">Short Code</Label>
+              <Label htmlFor="shortCode">Short Code (optional)</Label>
               <Input
                 id="shortCode"
                 type="text"
-                placeholder="my-short-code"
+                placeholder="Leave blank to generate one"
                 value={shortCode}
                 onChange={(e) => setShortCode(e.target.value)}
-                required
                 disabled={isLoading}
                 minLength={3}
                 maxLength={20}
@@ -91,9 +156,63 @@ export function CreateLinkDialog() {
                 title="Only letters, numbers, hyphens, and underscores allowed"
               />
               <p className="text-sm text-muted-foreground">
-                3-20 characters, letters, numbers, hyphens, and underscores only
+                3-20 characters, letters, numbers, hyphens, and underscores only. Leave blank for a random code.
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="tags">Tags (optional)</Label>
+              <Input
+                id="tags"
+                type="text"
+                placeholder="marketing, q3-launch"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                disabled={isLoading}
+              />
+              <p className="text-sm text-muted-foreground">
+                Separate tags with commas
               </p>
             </div>
+            <ScheduleFields value={schedule} onChange={setSchedule} disabled={isLoading} />
+            <div className="grid gap-2">
+              <Label htmlFor="maxClicks">Max Clicks (optional)</Label>
+              <Input
+                id="maxClicks"
+                type="number"
+                placeholder="Unlimited"
+                value={maxClicks}
+                onChange={(e) => setMaxClicks(e.target.value)}
+                disabled={isLoading}
+                min={1}
+                step={1}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="password">Password (optional)</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Leave blank for a public link"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isLoading}
+                autoComplete="new-password"
+                minLength={4}
+                maxLength={128}
+              />
+              <p className="text-sm text-muted-foreground">
+                Visitors must enter this password before being redirected
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={forcePreview}
+                onChange={(e) => setForcePreview(e.target.checked)}
+                disabled={isLoading}
+              />
+              Show a preview page before redirecting
+            </label>
             {error && (
               <div className="text-sm text-destructive">{error}</div>
             )}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createWebhookEndpointAction } from "@/app/dashboard/settings/actions";
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES } from "@/lib/webhook-events";
+
+type SubscribableEvent = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export function CreateWebhookDialog() {
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<SubscribableEvent[]>([...WEBHOOK_EVENT_TYPES]);
+  const [createdSecret, setCreatedSecret] = useState("");
+  const [copied, setCopied] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      // Forget the secret once the dialog closes, it can't be shown again
+      setUrl("");
+      setEvents([...WEBHOOK_EVENT_TYPES]);
+      setCreatedSecret("");
+      setCopied(false);
+      setError("");
+    }
+  };
+
+  const toggleEvent = (event: SubscribableEvent, checked: boolean) => {
+    setEvents((current) =>
+      checked
+        ? WEBHOOK_EVENT_TYPES.filter((type) => type === event || current.includes(type))
+        : current.filter((type) => type !== event)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await createWebhookEndpointAction({ url, events });
+      if (result.success) {
+        setCreatedSecret(result.data.secret);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(createdSecret);
+    setCopied(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Add Webhook</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Add Webhook</DialogTitle>
+          <DialogDescription>
+            {createdSecret
+              ? "Copy the signing secret now. For security it won't be shown again."
+              : "We'll POST a signed JSON payload to this URL whenever one of the chosen events happens."}
+          </DialogDescription>
+        </DialogHeader>
+        {createdSecret ? (
+          <>
+            <div className="grid gap-2 py-4">
+              <Label htmlFor="webhookSecret">Signing secret</Label>
+              <Input id="webhookSecret" readOnly value={createdSecret} className="font-mono" />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleCopy}>
+                {copied ? "Copied" : "Copy"}
+              </Button>
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                Done
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="webhookUrl">Endpoint URL</Label>
+                <Input
+                  id="webhookUrl"
+                  type="url"
+                  placeholder="https://example.com/webhooks/links"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Events</Label>
+                {WEBHOOK_EVENT_TYPES.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={events.includes(event)}
+                      onChange={(e) => toggleEvent(event, e.target.checked)}
+                      disabled={isLoading}
+                    />
+                    {WEBHOOK_EVENT_LABELS[event]}
+                    <span className="font-mono text-muted-foreground">{event}</span>
+                  </label>
+                ))}
+              </div>
+              {error && (
+                <div className="text-sm text-destructive">{error}</div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading || events.length === 0}>
+                {isLoading ? "Adding..." : "Add Webhook"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -58,7 +58,7 @@ export function DeleteLinkDialog({ link }: DeleteLinkDialogProps) {
         <DialogHeader>
           <DialogTitle>Delete Link</DialogTitle>
           <DialogDescription>
-            Are you sure you want to delete <span className="font-mono">/{link.shortCode}</span>? This action cannot be undone.
+            Move <span className="font-mono">/{link.shortCode}</span> to the trash? It stops redirecting straight away, and you can restore it from the trash until it&apos;s permanently deleted.
           </DialogDescription>
         </DialogHeader>
         {error && (
@@ -69,7 +69,7 @@ export function DeleteLinkDialog({ link }: DeleteLinkDialogProps) {
             Cancel
           </Button>
           <Button variant="destructive" size="sm" onClick={handleDelete} disabled={isLoading}>
-            {isLoading ? "Deleting..." : "Delete"}
+            {isLoading ? "Moving..." : "Move to Trash"}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { deleteWebhookEndpointAction } from "@/app/dashboard/settings/actions";
+
+interface DeleteWebhookDialogProps {
+  endpoint: {
+    id: number;
+    url: string;
+  };
+}
+
+export function DeleteWebhookDialog({ endpoint }: DeleteWebhookDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleDelete = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await deleteWebhookEndpointAction({ id: endpoint.id });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" size="sm">
+          Delete
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete Webhook</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to delete the webhook for <span className="font-mono break-all">{endpoint.url}</span>? Pending deliveries and its delivery log will be deleted too.
+          </DialogDescription>
+        </DialogHeader>
+        {error && (
+          <div className="text-destructive text-sm mb-2">{error}</div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => setOpen(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handleDelete} disabled={isLoading}>
+            {isLoading ? "Deleting..." : "Delete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
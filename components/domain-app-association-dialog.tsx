@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Smartphone } from "lucide-react";
+import { saveDomainAppAssociationAction } from "@/app/dashboard/domains/actions";
+
+const TEXTAREA_CLASS_NAME =
+  "border-input min-h-32 w-full rounded-md border bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
+
+interface DomainAppAssociationDialogProps {
+  domain: {
+    id: number;
+    hostname: string;
+    appleAppSiteAssociation: Record<string, unknown> | null;
+    androidAssetLinks: unknown[] | null;
+  };
+}
+
+const toJsonText = (value: unknown) => (value ? JSON.stringify(value, null, 2) : "");
+
+export function DomainAppAssociationDialog({ domain }: DomainAppAssociationDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [appleAppSiteAssociation, setAppleAppSiteAssociation] = useState(
+    toJsonText(domain.appleAppSiteAssociation)
+  );
+  const [androidAssetLinks, setAndroidAssetLinks] = useState(toJsonText(domain.androidAssetLinks));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Reopening discards unsaved edits
+    if (nextOpen) {
+      setAppleAppSiteAssociation(toJsonText(domain.appleAppSiteAssociation));
+      setAndroidAssetLinks(toJsonText(domain.androidAssetLinks));
+      setError("");
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await saveDomainAppAssociationAction({
+        id: domain.id,
+        appleAppSiteAssociation,
+        androidAssetLinks,
+      });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="App association">
+          <Smartphone className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>App Association</DialogTitle>
+          <DialogDescription>
+            Let your iOS and Android apps open links on{" "}
+            <span className="font-mono">{domain.hostname}</span> directly. These files are served
+            from <span className="font-mono">/.well-known</span>; leave one blank to serve nothing.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="appleAppSiteAssociation">apple-app-site-association</Label>
+              <textarea
+                id="appleAppSiteAssociation"
+                className={TEXTAREA_CLASS_NAME}
+                placeholder={'{"applinks": {"details": [{"appIDs": ["TEAMID.com.example.app"], "components": [{"/": "/*"}]}]}}'}
+                value={appleAppSiteAssociation}
+                onChange={(e) => setAppleAppSiteAssociation(e.target.value)}
+                disabled={isLoading}
+                spellCheck={false}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="androidAssetLinks">assetlinks.json</Label>
+              <textarea
+                id="androidAssetLinks"
+                className={TEXTAREA_CLASS_NAME}
+                placeholder={'[{"relation": ["delegate_permission/common.handle_all_urls"], "target": {"namespace": "android_app", "package_name": "com.example.app", "sha256_cert_fingerprints": ["..."]}}]'}
+                value={androidAssetLinks}
+                onChange={(e) => setAndroidAssetLinks(e.target.value)}
+                disabled={isLoading}
+                spellCheck={false}
+              />
+            </div>
+            {error && (
+              <div className="text-sm text-destructive">{error}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,20 +15,39 @@ import { Button } from "@/components/ui/button";
 import { Edit } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { parseTagList } from "@/lib/tags";
+import type { UtmParams } from "@/lib/utm";
+import { UtmBuilder, type UtmPresetOption } from "@/components/utm-builder";
+import { ScheduleFields, fromScheduleValue, toScheduleValue } from "@/components/schedule-fields";
 import { editLink } from "@/app/dashboard/actions";
 
 interface EditLinkDialogProps {
+  utmPresets: UtmPresetOption[];
   link: {
     id: number;
     url: string;
     shortCode: string;
+    activeFrom: Date | null;
+    placeholderUrl: string | null;
+    expiresAt: Date | null;
+    maxClicks: number | null;
+    hasPassword: boolean;
+    forcePreview: boolean;
+    tags: string[];
   };
 }
 
-export function EditLinkDialog({ link }: EditLinkDialogProps) {
+export function EditLinkDialog({ link, utmPresets }: EditLinkDialogProps) {
   const [open, setOpen] = useState(false);
   const [url, setUrl] = useState(link.url);
   const [shortCode, setShortCode] = useState(link.shortCode);
+  const [utm, setUtm] = useState<UtmParams | null>(null);
+  const [tags, setTags] = useState(link.tags.join(", "));
+  const [schedule, setSchedule] = useState(() => toScheduleValue(link));
+  const [maxClicks, setMaxClicks] = useState(link.maxClicks?.toString() ?? "");
+  const [password, setPassword] = useState("");
+  const [removePassword, setRemovePassword] = useState(false);
+  const [forcePreview, setForcePreview] = useState(link.forcePreview);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const router = useRouter();
@@ -39,8 +58,22 @@ export function EditLinkDialog({ link }: EditLinkDialogProps) {
     setIsLoading(true);
 
     try {
-      const result = await editLink({ id: link.id, url, shortCode });
+      const result = await editLink({
+        id: link.id,
+        url,
+        shortCode,
+        ...fromScheduleValue(schedule),
+        maxClicks: maxClicks ? Number(maxClicks) : null,
+        tags: parseTagList(tags),
+        utm: utm ?? undefined,
+        password: password || undefined,
+        removePassword,
+        forcePreview,
+      });
       if (result.success) {
+        setUtm(null);
+        setPassword("");
+        setRemovePassword(false);
         setOpen(false);
         router.refresh();
       } else {
@@ -64,7 +97,7 @@ export function EditLinkDialog({ link }: EditLinkDialogProps) {
         <DialogHeader>
           <DialogTitle>Edit Link</DialogTitle>
           <DialogDescription>
-            Update the URL or short code for this link.
+            Update the URL, short code, schedule or limits for this link.
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
@@ -80,6 +113,13 @@ export function EditLinkDialog({ link }: EditLinkDialogProps) {
                 disabled={isLoading}
               />
             </div>
+            <UtmBuilder
+              url={url}
+              value={utm}
+              onChange={setUtm}
+              presets={utmPresets}
+              disabled={isLoading}
+            />
             <div className="grid gap-2">
               <Label htmlFor="shortCode">Short Code</Label>
               <Input
@@ -98,6 +138,75 @@ export function EditLinkDialog({ link }: EditLinkDialogProps) {
                 3-20 characters, letters, numbers, hyphens, and underscores only
               </p>
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="tags">Tags (optional)</Label>
+              <Input
+                id="tags"
+                type="text"
+                placeholder="marketing, q3-launch"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                disabled={isLoading}
+              />
+              <p className="text-sm text-muted-foreground">
+                Separate tags with commas
+              </p>
+            </div>
+            <ScheduleFields value={schedule} onChange={setSchedule} disabled={isLoading} />
+            <div className="grid gap-2">
+              <Label htmlFor="maxClicks">Max Clicks (optional)</Label>
+              <Input
+                id="maxClicks"
+                type="number"
+                placeholder="Unlimited"
+                value={maxClicks}
+                onChange={(e) => setMaxClicks(e.target.value)}
+                disabled={isLoading}
+                min={1}
+                step={1}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder={link.hasPassword ? "Leave blank to keep the current password" : "No password"}
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setRemovePassword(false);
+                }}
+                disabled={isLoading || removePassword}
+                autoComplete="new-password"
+                minLength={4}
+                maxLength={128}
+              />
+              {link.hasPassword && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="justify-self-start"
+                  onClick={() => {
+                    setRemovePassword(!removePassword);
+                    setPassword("");
+                  }}
+                  disabled={isLoading}
+                >
+                  {removePassword ? "Keep password" : "Remove password"}
+                </Button>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={forcePreview}
+                onChange={(e) => setForcePreview(e.target.checked)}
+                disabled={isLoading}
+              />
+              Show a preview page before redirecting
+            </label>
             {error && (
               <div className="text-sm text-destructive">{error}</div>
             )}
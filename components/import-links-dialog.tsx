@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Upload } from "lucide-react";
+import { importLinks, previewLinkImport } from "@/app/dashboard/actions";
+import type { ImportPreviewRow } from "@/lib/link-import";
+
+export function ImportLinksDialog() {
+  const [open, setOpen] = useState(false);
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const invalidCount = preview?.filter((row) => row.error).length ?? 0;
+
+  const reset = () => {
+    setCsv("");
+    setPreview(null);
+    setError("");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      reset();
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPreview(null);
+    setError("");
+    if (!file) {
+      setCsv("");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const text = await file.text();
+      setCsv(text);
+      const result = await previewLinkImport({ csv: text });
+      if (result.success) {
+        setPreview(result.data);
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await importLinks({ csv });
+      if (result.success) {
+        handleOpenChange(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Import Links</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with <span className="font-mono">url,shortCode</span> rows. Leave the short code blank to generate one. Nothing is saved unless every row is valid.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="csvFile">CSV File</Label>
+            <Input
+              id="csvFile"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              disabled={isLoading}
+            />
+          </div>
+          {preview && (
+            <div className="grid gap-2">
+              <p className="text-sm text-muted-foreground">
+                {preview.length} row(s), {invalidCount === 0 ? "all valid" : `${invalidCount} with errors`}
+              </p>
+              <div className="max-h-80 overflow-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-background">
+                    <tr className="border-b text-left">
+                      <th className="p-2 font-medium">Line</th>
+                      <th className="p-2 font-medium">Short Code</th>
+                      <th className="p-2 font-medium">URL</th>
+                      <th className="p-2 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map((row) => (
+                      <tr key={row.line} className="border-b last:border-0 align-top">
+                        <td className="p-2 text-muted-foreground">{row.line}</td>
+                        <td className="p-2 font-mono break-all">
+                          {row.shortCode || <span className="text-muted-foreground">(generated)</span>}
+                        </td>
+                        <td className="p-2 break-all">{row.url}</td>
+                        <td className={row.error ? "p-2 text-destructive" : "p-2 text-muted-foreground"}>
+                          {row.error ?? "OK"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+          {error && (
+            <div className="text-sm text-destructive">{error}</div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={isLoading || !preview || preview.length === 0 || invalidCount > 0}
+          >
+            {isLoading ? "Working..." : `Import ${preview?.length ?? 0} Link(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
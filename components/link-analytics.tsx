@@ -0,0 +1,92 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { CountEntry, TimeBucket } from "@/data/analytics";
+
+interface ClicksChartProps {
+  series: { bucket: Date; clicks: number }[];
+  bucket: TimeBucket;
+}
+
+function formatBucket(date: Date, bucket: TimeBucket) {
+  if (bucket === "hour") {
+    return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", timeZone: "UTC" });
+  }
+  const label = date.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+  return bucket === "week" ? `Week of ${label}` : label;
+}
+
+export function ClicksChart({ series, bucket }: ClicksChartProps) {
+  const max = Math.max(1, ...series.map((point) => point.clicks));
+  const total = series.reduce((sum, point) => sum + point.clicks, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Clicks over time</CardTitle>
+        <CardDescription>
+          {total} {total === 1 ? "click" : "clicks"} in the selected range (UTC)
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {series.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No data for this range</p>
+        ) : (
+          <>
+            <div className="flex h-48 items-end gap-px">
+              {series.map((point) => (
+                <div
+                  key={point.bucket.toISOString()}
+                  className="flex-1 rounded-t-sm bg-primary/80 hover:bg-primary"
+                  style={{ height: `${(point.clicks / max) * 100}%`, minHeight: point.clicks > 0 ? 2 : 0 }}
+                  title={`${formatBucket(point.bucket, bucket)}: ${point.clicks}`}
+                />
+              ))}
+            </div>
+            <div className="mt-2 flex justify-between text-xs text-muted-foreground">
+              <span>{formatBucket(series[0].bucket, bucket)}</span>
+              <span>{formatBucket(series[series.length - 1].bucket, bucket)}</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface BreakdownCardProps {
+  title: string;
+  entries: CountEntry[];
+}
+
+export function BreakdownCard({ title, entries }: BreakdownCardProps) {
+  const total = entries.reduce((sum, entry) => sum + entry.clicks, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No data for this range</p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map((entry) => (
+              <li key={entry.label} className="space-y-1 text-sm">
+                <div className="flex justify-between gap-4">
+                  <span className="break-all">{entry.label}</span>
+                  <span className="text-muted-foreground">{entry.clicks}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted">
+                  <div
+                    className="h-full rounded-full bg-primary"
+                    style={{ width: `${(entry.clicks / total) * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
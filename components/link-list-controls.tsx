@@ -0,0 +1,60 @@
+import Link from "next/link";
+import { ArrowDown, ArrowUp, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  LINK_SORT_OPTIONS,
+  dashboardHref,
+  type DashboardParams,
+} from "@/lib/dashboard-params";
+
+interface LinkListControlsProps {
+  params: DashboardParams;
+}
+
+export function LinkListControls({ params }: LinkListControlsProps) {
+  return (
+    <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+      {/* Plain GET form so the search lands in the URL */}
+      <form action="/dashboard" className="flex w-full gap-2 md:max-w-md">
+        <Input
+          name="q"
+          type="search"
+          placeholder="Search short codes and URLs"
+          defaultValue={params.q}
+          aria-label="Search links"
+        />
+        {params.sort !== "updated" && <input type="hidden" name="sort" value={params.sort} />}
+        {params.order !== "desc" && <input type="hidden" name="order" value={params.order} />}
+        {params.tags.map((tag) => (
+          <input key={tag} type="hidden" name="tag" value={tag} />
+        ))}
+        <Button type="submit" variant="outline">
+          <Search className="w-4 h-4" />
+          Search
+        </Button>
+      </form>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">Sort:</span>
+        {LINK_SORT_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            variant={params.sort === option.value ? "secondary" : "ghost"}
+            size="sm"
+            asChild
+          >
+            <Link href={dashboardHref(params, { sort: option.value })}>{option.label}</Link>
+          </Button>
+        ))}
+        <Button variant="outline" size="sm" asChild>
+          <Link
+            href={dashboardHref(params, { order: params.order === "asc" ? "desc" : "asc" })}
+            aria-label={params.order === "asc" ? "Sort descending" : "Sort ascending"}
+          >
+            {params.order === "asc" ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
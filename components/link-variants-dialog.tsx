@@ -0,0 +1,252 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FlaskConical, Plus, Trash2 } from "lucide-react";
+import { saveLinkVariants } from "@/app/dashboard/actions";
+import { cn } from "@/lib/utils";
+
+interface VariantRow {
+  key: number;
+  id?: number;
+  url: string;
+  weight: string;
+}
+
+interface LinkVariantsDialogProps {
+  link: {
+    id: number;
+    url: string;
+    shortCode: string;
+    stickyVariants: boolean;
+    variants: { id: number; url: string; weight: number }[];
+  };
+}
+
+let nextRowKey = 0;
+
+function toRows(variants: LinkVariantsDialogProps["link"]["variants"]): VariantRow[] {
+  return variants.map((variant) => ({
+    key: nextRowKey++,
+    id: variant.id,
+    url: variant.url,
+    weight: String(variant.weight),
+  }));
+}
+
+// Spreads 100% as evenly as whole percentages allow, earlier rows get the remainder
+function evenWeights(count: number) {
+  return Array.from({ length: count }, (_, index) =>
+    String(Math.floor(100 / count) + (index < 100 % count ? 1 : 0))
+  );
+}
+
+export function LinkVariantsDialog({ link }: LinkVariantsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState(() => toRows(link.variants));
+  const [sticky, setSticky] = useState(link.stickyVariants);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const totalWeight = rows.reduce((sum, row) => sum + (Number(row.weight) || 0), 0);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Reopening discards unsaved edits
+    if (nextOpen) {
+      setRows(toRows(link.variants));
+      setSticky(link.stickyVariants);
+      setError("");
+    }
+    setOpen(nextOpen);
+  };
+
+  const updateRow = (key: number, changes: Partial<VariantRow>) => {
+    setRows(rows.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    // A new split test starts from the link's current destination
+    const added =
+      rows.length === 0
+        ? [{ key: nextRowKey++, url: link.url, weight: "" }, { key: nextRowKey++, url: "", weight: "" }]
+        : [{ key: nextRowKey++, url: "", weight: "" }];
+    const next = [...rows, ...added];
+    const weights = evenWeights(next.length);
+    setRows(next.map((row, index) => ({ ...row, weight: weights[index] })));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await saveLinkVariants({
+        linkId: link.id,
+        variants: rows.map((row) => ({
+          id: row.id,
+          url: row.url,
+          weight: Number(row.weight),
+        })),
+        sticky,
+      });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="Split test">
+          <FlaskConical className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Split Test</DialogTitle>
+          <DialogDescription>
+            Send visitors of <span className="font-mono">/{link.shortCode}</span> to several
+            destinations by percentage. Redirect rules still take priority. Remove all variants
+            to stop the test.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4 max-h-[60vh] overflow-y-auto">
+            {rows.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Every visitor goes to the link&apos;s URL.
+              </p>
+            )}
+            {rows.map((row, index) => (
+              <div key={row.key} className="flex items-end gap-2">
+                <div className="grid flex-1 gap-1">
+                  <Label htmlFor={`variantUrl${row.key}`}>
+                    Variant {String.fromCharCode(65 + index)}
+                  </Label>
+                  <Input
+                    id={`variantUrl${row.key}`}
+                    type="url"
+                    placeholder="https://example.com/landing-b"
+                    value={row.url}
+                    onChange={(e) => updateRow(row.key, { url: e.target.value })}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="grid w-24 gap-1">
+                  <Label htmlFor={`variantWeight${row.key}`}>Weight %</Label>
+                  <Input
+                    id={`variantWeight${row.key}`}
+                    type="number"
+                    value={row.weight}
+                    onChange={(e) => updateRow(row.key, { weight: e.target.value })}
+                    required
+                    disabled={isLoading}
+                    min={1}
+                    max={100}
+                    step={1}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRows(rows.filter((r) => r.key !== row.key))}
+                  disabled={isLoading}
+                  aria-label="Remove variant"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addRow}
+                  disabled={isLoading || rows.length >= 10}
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Variant
+                </Button>
+                {rows.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      const weights = evenWeights(rows.length);
+                      setRows(rows.map((row, index) => ({ ...row, weight: weights[index] })));
+                    }}
+                    disabled={isLoading}
+                  >
+                    Split Evenly
+                  </Button>
+                )}
+              </div>
+              {rows.length > 0 && (
+                <span
+                  className={cn(
+                    "text-sm",
+                    totalWeight === 100 ? "text-muted-foreground" : "text-destructive"
+                  )}
+                >
+                  Total: {totalWeight}%
+                </span>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={sticky}
+                onChange={(e) => setSticky(e.target.checked)}
+                disabled={isLoading}
+              />
+              Keep returning visitors on the same variant
+            </label>
+            {error && (
+              <div className="text-sm text-destructive">{error}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Save Variants"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
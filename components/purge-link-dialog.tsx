@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { purgeLinkAction } from "@/app/dashboard/actions";
+
+interface PurgeLinkDialogProps {
+  link: {
+    id: number;
+    shortCode: string;
+  };
+}
+
+export function PurgeLinkDialog({ link }: PurgeLinkDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handlePurge = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await purgeLinkAction({ id: link.id });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" size="sm">
+          Delete Forever
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete Link Forever</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to permanently delete <span className="font-mono">/{link.shortCode}</span>? Its analytics will be lost and the short code can be reused. This action cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+        {error && (
+          <div className="text-destructive text-sm mb-2">{error}</div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => setOpen(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handlePurge} disabled={isLoading}>
+            {isLoading ? "Deleting..." : "Delete Forever"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
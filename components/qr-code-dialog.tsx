@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { QrCode } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getShortPath } from "@/lib/short-url";
+
+const ERROR_CORRECTION_LEVELS = ["L", "M", "Q", "H"] as const;
+
+interface QrCodeDialogProps {
+  shortCode: string;
+  // Links on a custom domain are rendered by that domain so the code encodes the branded URL
+  customDomain?: string | null;
+}
+
+export function QrCodeDialog({ shortCode, customDomain }: QrCodeDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [size, setSize] = useState("512");
+  const [margin, setMargin] = useState("4");
+  const [ecc, setEcc] = useState<(typeof ERROR_CORRECTION_LEVELS)[number]>("M");
+  const [fg, setFg] = useState("#000000");
+  const [bg, setBg] = useState("#ffffff");
+
+  const qrUrl = (format: "svg" | "png", download = false) => {
+    const params = new URLSearchParams({
+      format,
+      size,
+      margin,
+      ecc,
+      fg: fg.slice(1),
+      bg: bg.slice(1),
+    });
+    if (download) {
+      params.set("download", "1");
+    }
+    const origin = customDomain ? `https://${customDomain}` : "";
+    return `${origin}${getShortPath(shortCode, Boolean(customDomain))}/qr?${params}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="QR code">
+          <QrCode className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>QR Code</DialogTitle>
+          <DialogDescription>
+            Scan or download a QR code for <span className="font-mono">/{shortCode}</span>.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="flex justify-center rounded-md border p-4">
+            {/* eslint-disable-next-line @next/next/no-img-element -- generated on demand, not a static asset */}
+            <img src={qrUrl("svg")} alt={`QR code for /${shortCode}`} className="h-48 w-48" />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="qrSize">Size (px)</Label>
+              <Input
+                id="qrSize"
+                type="number"
+                min={64}
+                max={2048}
+                step={32}
+                value={size}
+                onChange={(e) => setSize(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="qrMargin">Margin (modules)</Label>
+              <Input
+                id="qrMargin"
+                type="number"
+                min={0}
+                max={16}
+                value={margin}
+                onChange={(e) => setMargin(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="qrFg">Foreground</Label>
+              <Input id="qrFg" type="color" value={fg} onChange={(e) => setFg(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="qrBg">Background</Label>
+              <Input id="qrBg" type="color" value={bg} onChange={(e) => setBg(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Error Correction</Label>
+            <div className="flex gap-2">
+              {ERROR_CORRECTION_LEVELS.map((level) => (
+                <Button
+                  key={level}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className={cn(ecc === level && "border-primary")}
+                  onClick={() => setEcc(level)}
+                >
+                  {level}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" asChild>
+            <a href={qrUrl("svg", true)} download>Download SVG</a>
+          </Button>
+          <Button asChild>
+            <a href={qrUrl("png", true)} download>Download PNG</a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowDown, ArrowUp, Plus, Split, Trash2 } from "lucide-react";
+import { saveRedirectRules } from "@/app/dashboard/actions";
+import { DEVICE_TYPES, OPERATING_SYSTEM_NAMES, type DeviceType } from "@/lib/user-agent";
+
+const SELECT_CLASS_NAME =
+  "border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
+
+interface RuleRow {
+  key: number;
+  // Empty strings mean "any" in the form
+  device: string;
+  os: string;
+  language: string;
+  url: string;
+}
+
+interface RedirectRulesDialogProps {
+  link: {
+    id: number;
+    shortCode: string;
+    rules: {
+      device: string | null;
+      os: string | null;
+      language: string | null;
+      url: string;
+    }[];
+  };
+}
+
+let nextRowKey = 0;
+
+function toRows(rules: RedirectRulesDialogProps["link"]["rules"]): RuleRow[] {
+  return rules.map((rule) => ({
+    key: nextRowKey++,
+    device: rule.device ?? "",
+    os: rule.os ?? "",
+    language: rule.language ?? "",
+    url: rule.url,
+  }));
+}
+
+export function RedirectRulesDialog({ link }: RedirectRulesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState(() => toRows(link.rules));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Reopening discards unsaved edits
+    if (nextOpen) {
+      setRows(toRows(link.rules));
+      setError("");
+    }
+    setOpen(nextOpen);
+  };
+
+  const updateRow = (key: number, changes: Partial<RuleRow>) => {
+    setRows(rows.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const moveRow = (index: number, offset: -1 | 1) => {
+    const next = [...rows];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setRows(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await saveRedirectRules({
+        linkId: link.id,
+        rules: rows.map((row) => ({
+          device: (row.device || null) as DeviceType | null,
+          os: row.os || null,
+          language: row.language.trim() || null,
+          url: row.url,
+        })),
+      });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="Redirect rules">
+          <Split className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Redirect Rules</DialogTitle>
+          <DialogDescription>
+            Send visitors of <span className="font-mono">/{link.shortCode}</span> to different
+            destinations by device, operating system or language. Rules are checked from top to
+            bottom and the first match wins; everyone else goes to the link&apos;s URL.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4 max-h-[60vh] overflow-y-auto">
+            {rows.length === 0 && (
+              <p className="text-sm text-muted-foreground">No rules yet.</p>
+            )}
+            {rows.map((row, index) => (
+              <div key={row.key} className="grid gap-3 rounded-md border p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Rule {index + 1}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveRow(index, -1)}
+                      disabled={isLoading || index === 0}
+                      aria-label="Move rule up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveRow(index, 1)}
+                      disabled={isLoading || index === rows.length - 1}
+                      aria-label="Move rule down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRows(rows.filter((r) => r.key !== row.key))}
+                      disabled={isLoading}
+                      aria-label="Remove rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="grid gap-1">
+                    <Label htmlFor={`ruleDevice${row.key}`}>Device</Label>
+                    <select
+                      id={`ruleDevice${row.key}`}
+                      className={SELECT_CLASS_NAME}
+                      value={row.device}
+                      onChange={(e) => updateRow(row.key, { device: e.target.value })}
+                      disabled={isLoading}
+                    >
+                      <option value="">Any</option>
+                      {DEVICE_TYPES.map((device) => (
+                        <option key={device} value={device}>
+                          {device[0].toUpperCase() + device.slice(1)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid gap-1">
+                    <Label htmlFor={`ruleOs${row.key}`}>OS</Label>
+                    <select
+                      id={`ruleOs${row.key}`}
+                      className={SELECT_CLASS_NAME}
+                      value={row.os}
+                      onChange={(e) => updateRow(row.key, { os: e.target.value })}
+                      disabled={isLoading}
+                    >
+                      <option value="">Any</option>
+                      {OPERATING_SYSTEM_NAMES.map((os) => (
+                        <option key={os} value={os}>
+                          {os}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid gap-1">
+                    <Label htmlFor={`ruleLanguage${row.key}`}>Language</Label>
+                    <Input
+                      id={`ruleLanguage${row.key}`}
+                      type="text"
+                      placeholder="Any, or e.g. de"
+                      value={row.language}
+                      onChange={(e) => updateRow(row.key, { language: e.target.value })}
+                      disabled={isLoading}
+                      maxLength={35}
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-1">
+                  <Label htmlFor={`ruleUrl${row.key}`}>Destination</Label>
+                  <Input
+                    id={`ruleUrl${row.key}`}
+                    type="url"
+                    placeholder="https://apps.apple.com/..."
+                    value={row.url}
+                    onChange={(e) => updateRow(row.key, { url: e.target.value })}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="justify-self-start"
+              onClick={() =>
+                setRows([...rows, { key: nextRowKey++, device: "", os: "", language: "", url: "" }])
+              }
+              disabled={isLoading || rows.length >= 20}
+            >
+              <Plus className="w-4 h-4" />
+              Add Rule
+            </Button>
+            {error && (
+              <div className="text-sm text-destructive">{error}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Save Rules"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
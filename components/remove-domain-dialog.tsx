@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { removeDomainAction } from "@/app/dashboard/domains/actions";
+
+interface RemoveDomainDialogProps {
+  domain: {
+    id: number;
+    hostname: string;
+  };
+}
+
+export function RemoveDomainDialog({ domain }: RemoveDomainDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleRemove = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await removeDomainAction({ id: domain.id });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" size="sm">
+          Remove
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Remove Domain</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to remove <span className="font-mono">{domain.hostname}</span>? Domains can only be removed once no links use them, including links in the trash.
+          </DialogDescription>
+        </DialogHeader>
+        {error && (
+          <div className="text-destructive text-sm mb-2">{error}</div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => setOpen(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handleRemove} disabled={isLoading}>
+            {isLoading ? "Removing..." : "Remove"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
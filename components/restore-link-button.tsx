@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { restoreLinkAction } from "@/app/dashboard/actions";
+
+interface RestoreLinkButtonProps {
+  linkId: number;
+}
+
+export function RestoreLinkButton({ linkId }: RestoreLinkButtonProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleRestore = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await restoreLinkAction({ id: linkId });
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant="outline" size="sm" onClick={handleRestore} disabled={isLoading}>
+        <Undo2 className="w-4 h-4" />
+        {isLoading ? "Restoring..." : "Restore"}
+      </Button>
+      {error && (
+        <div className="text-destructive text-sm">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { History } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { revertLinkAction } from "@/app/dashboard/actions";
+import type { SnapshotChange } from "@/lib/link-history";
+
+interface RevertLinkDialogProps {
+  linkId: number;
+  historyId: number;
+  // How the link would change compared to its current state
+  changes: SnapshotChange[];
+}
+
+export function RevertLinkDialog({ linkId, historyId, changes }: RevertLinkDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleRevert = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await revertLinkAction({ linkId, historyId });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="w-4 h-4" />
+          Revert to this version
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Revert Link</DialogTitle>
+          <DialogDescription>
+            The link will be changed back to this version. Tags, redirect rules and split tests are not affected.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="grid gap-1 text-sm">
+          {changes.map((change) => (
+            <li key={change.label} className="break-all">
+              <span className="font-medium">{change.label}:</span>{" "}
+              <span className="text-muted-foreground line-through">{change.from}</span> → {change.to}
+            </li>
+          ))}
+        </ul>
+        {error && (
+          <div className="text-destructive text-sm mb-2">{error}</div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => setOpen(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleRevert} disabled={isLoading}>
+            {isLoading ? "Reverting..." : "Revert"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
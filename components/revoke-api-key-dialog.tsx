@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { revokeApiKeyAction } from "@/app/dashboard/settings/actions";
+
+interface RevokeApiKeyDialogProps {
+  apiKey: {
+    id: number;
+    name: string;
+    prefix: string;
+  };
+}
+
+export function RevokeApiKeyDialog({ apiKey }: RevokeApiKeyDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleRevoke = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await revokeApiKeyAction({ id: apiKey.id });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" size="sm">
+          Revoke
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Revoke API Key</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to revoke <span className="font-medium">{apiKey.name}</span> (<span className="font-mono">{apiKey.prefix}…</span>)? Anything using this key will stop working immediately.
+          </DialogDescription>
+        </DialogHeader>
+        {error && (
+          <div className="text-destructive text-sm mb-2">{error}</div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => setOpen(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handleRevoke} disabled={isLoading}>
+            {isLoading ? "Revoking..." : "Revoke"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  fromDateTimeLocalValue,
+  getBrowserTimeZone,
+  getTimeZoneOptions,
+  toDateTimeLocalValue,
+} from "@/lib/datetime";
+
+const SELECT_CLASS_NAME =
+  "border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
+
+// The form's raw values; times are wall clock times in timeZone
+export interface ScheduleValue {
+  timeZone: string;
+  activeFrom: string;
+  placeholderUrl: string;
+  expiresAt: string;
+}
+
+interface ScheduleFieldsProps {
+  value: ScheduleValue;
+  onChange: (value: ScheduleValue) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Builds the form values for a link's schedule, shown in the browser's timezone
+ * @param link - The link's current schedule, or undefined for a new link
+ */
+export function toScheduleValue(link?: {
+  activeFrom: Date | null;
+  placeholderUrl: string | null;
+  expiresAt: Date | null;
+}): ScheduleValue {
+  const timeZone = getBrowserTimeZone();
+  return {
+    timeZone,
+    activeFrom: toDateTimeLocalValue(link?.activeFrom, timeZone),
+    placeholderUrl: link?.placeholderUrl ?? "",
+    expiresAt: toDateTimeLocalValue(link?.expiresAt, timeZone),
+  };
+}
+
+/**
+ * Converts the form values to the fields the link actions expect
+ * @param value - The form values
+ */
+export function fromScheduleValue(value: ScheduleValue) {
+  const activeFrom = fromDateTimeLocalValue(value.activeFrom, value.timeZone);
+  return {
+    activeFrom,
+    // A placeholder only means something while the link is scheduled
+    placeholderUrl: activeFrom && value.placeholderUrl.trim() ? value.placeholderUrl.trim() : null,
+    expiresAt: fromDateTimeLocalValue(value.expiresAt, value.timeZone),
+  };
+}
+
+export function ScheduleFields({ value, onChange, disabled }: ScheduleFieldsProps) {
+  // Browsers may report an alias that isn't in the canonical list, e.g. Asia/Calcutta
+  const timeZones = useMemo(() => {
+    const zones = getTimeZoneOptions();
+    return zones.includes(value.timeZone) ? zones : [value.timeZone, ...zones];
+  }, [value.timeZone]);
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="activeFrom">Active From (optional)</Label>
+          <Input
+            id="activeFrom"
+            type="datetime-local"
+            value={value.activeFrom}
+            onChange={(e) => onChange({ ...value, activeFrom: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="expiresAt">Expires At (optional)</Label>
+          <Input
+            id="expiresAt"
+            type="datetime-local"
+            value={value.expiresAt}
+            onChange={(e) => onChange({ ...value, expiresAt: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="timeZone">Time Zone</Label>
+        <select
+          id="timeZone"
+          className={SELECT_CLASS_NAME}
+          value={value.timeZone}
+          // Keeps the entered times and reads them in the new zone, e.g. 9:00 in New York
+          onChange={(e) => onChange({ ...value, timeZone: e.target.value })}
+          disabled={disabled}
+        >
+          {timeZones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+      </div>
+      {value.activeFrom && (
+        <div className="grid gap-2">
+          <Label htmlFor="placeholderUrl">Placeholder URL (optional)</Label>
+          <Input
+            id="placeholderUrl"
+            type="url"
+            placeholder="Leave blank for a coming soon page"
+            value={value.placeholderUrl}
+            onChange={(e) => onChange({ ...value, placeholderUrl: e.target.value })}
+            disabled={disabled}
+          />
+          <p className="text-sm text-muted-foreground">
+            Where visitors go until the link is live
+          </p>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { sendTestWebhookAction } from "@/app/dashboard/settings/actions";
+
+interface SendTestWebhookButtonProps {
+  endpointId: number;
+}
+
+export function SendTestWebhookButton({ endpointId }: SendTestWebhookButtonProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleSend = async () => {
+    setMessage("");
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await sendTestWebhookAction({ id: endpointId });
+      if (!result.success) {
+        setError(result.error);
+      } else if (result.data.status === "succeeded") {
+        setMessage(`Delivered (HTTP ${result.data.responseStatus})`);
+      } else {
+        const response = result.data.responseStatus
+          ? `HTTP ${result.data.responseStatus}`
+          : result.data.error ?? "No response";
+        setError(`Delivery failed (${response}), it will be retried`);
+      }
+      // The attempt shows up in the delivery log either way
+      router.refresh();
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant="outline" size="sm" onClick={handleSend} disabled={isLoading}>
+        <Send className="w-4 h-4" />
+        {isLoading ? "Sending..." : "Send test event"}
+      </Button>
+      {message && (
+        <div className="text-sm text-muted-foreground">{message}</div>
+      )}
+      {error && (
+        <div className="text-destructive text-sm max-w-sm text-right">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Share2 } from "lucide-react";
+import { saveSocialPreview } from "@/app/dashboard/actions";
+
+const TEXTAREA_CLASS_NAME =
+  "border-input min-h-20 w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
+
+interface SocialPreviewDialogProps {
+  link: {
+    id: number;
+    shortCode: string;
+    ogTitle: string | null;
+    ogDescription: string | null;
+    ogImageUrl: string | null;
+  };
+}
+
+export function SocialPreviewDialog({ link }: SocialPreviewDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState(link.ogTitle ?? "");
+  const [description, setDescription] = useState(link.ogDescription ?? "");
+  const [imageUrl, setImageUrl] = useState(link.ogImageUrl ?? "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Reopening discards unsaved edits
+    if (nextOpen) {
+      setTitle(link.ogTitle ?? "");
+      setDescription(link.ogDescription ?? "");
+      setImageUrl(link.ogImageUrl ?? "");
+      setError("");
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await saveSocialPreview({ linkId: link.id, title, description, imageUrl });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const hasCard = Boolean(title.trim() || description.trim() || imageUrl.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="Social preview">
+          <Share2 className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Social Preview</DialogTitle>
+          <DialogDescription>
+            Choose the card Slack, X, LinkedIn and other apps show when{" "}
+            <span className="font-mono">/{link.shortCode}</span> is pasted. Leave every field
+            blank to let them preview the destination instead.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="ogTitle">Title</Label>
+              <Input
+                id="ogTitle"
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                disabled={isLoading}
+                maxLength={100}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="ogDescription">Description</Label>
+              <textarea
+                id="ogDescription"
+                className={TEXTAREA_CLASS_NAME}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={isLoading}
+                maxLength={300}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="ogImageUrl">Image URL</Label>
+              <Input
+                id="ogImageUrl"
+                type="url"
+                placeholder="https://example.com/card.png"
+                value={imageUrl}
+                onChange={(e) => setImageUrl(e.target.value)}
+                disabled={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">
+                1200×630 works best for large cards
+              </p>
+            </div>
+            {hasCard && (
+              <div className="overflow-hidden rounded-md border text-sm">
+                {imageUrl.trim() && (
+                  // eslint-disable-next-line @next/next/no-img-element -- arbitrary external image
+                  <img src={imageUrl.trim()} alt="" className="aspect-[1200/630] w-full object-cover bg-muted" />
+                )}
+                <div className="grid gap-1 p-3">
+                  <div className="font-medium">{title.trim() || `/${link.shortCode}`}</div>
+                  {description.trim() && (
+                    <div className="text-muted-foreground line-clamp-2">{description.trim()}</div>
+                  )}
+                </div>
+              </div>
+            )}
+            {error && (
+              <div className="text-sm text-destructive">{error}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
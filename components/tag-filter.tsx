@@ -0,0 +1,40 @@
+import Link from "next/link";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { dashboardHref, type DashboardParams } from "@/lib/dashboard-params";
+
+interface TagFilterProps {
+  tags: string[];
+  params: DashboardParams;
+}
+
+export function TagFilter({ tags, params }: TagFilterProps) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">Filter by tag:</span>
+      {tags.map((tag) => {
+        const isSelected = params.tags.includes(tag);
+        const next = isSelected
+          ? params.tags.filter((name) => name !== tag)
+          : [...params.tags, tag];
+        return (
+          <Badge key={tag} variant={isSelected ? "default" : "outline"} asChild>
+            <Link href={dashboardHref(params, { tags: next })}>{tag}</Link>
+          </Badge>
+        );
+      })}
+      {params.tags.length > 0 && (
+        <Badge variant="secondary" asChild>
+          <Link href={dashboardHref(params, { tags: [] })}>
+            <X />
+            Clear
+          </Link>
+        </Badge>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { unblockDomainAction } from "@/app/dashboard/admin/actions";
+
+interface UnblockDomainDialogProps {
+  blockedDomain: {
+    id: number;
+    domain: string;
+  };
+}
+
+export function UnblockDomainDialog({ blockedDomain }: UnblockDomainDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleUnblock = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await unblockDomainAction({ id: blockedDomain.id });
+      if (result.success) {
+        setOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Unblock
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Unblock Domain</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to unblock <span className="font-mono">{blockedDomain.domain}</span>? Users will be able to link to it again.
+          </DialogDescription>
+        </DialogHeader>
+        {error && (
+          <div className="text-destructive text-sm mb-2">{error}</div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => setOpen(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleUnblock} disabled={isLoading}>
+            {isLoading ? "Unblocking..." : "Unblock"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
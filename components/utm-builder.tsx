@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ChevronDown, X } from "lucide-react";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { deleteUtmPresetAction, saveUtmPreset } from "@/app/dashboard/actions";
+import { UTM_FIELDS, applyUtmParams, extractUtmParams, type UtmParams } from "@/lib/utm";
+import { cn } from "@/lib/utils";
+
+export interface UtmPresetOption extends UtmParams {
+  id: number;
+  name: string;
+}
+
+interface UtmBuilderProps {
+  url: string;
+  // null until the section is first opened, meaning "leave the URL's UTM parameters alone"
+  value: UtmParams | null;
+  onChange: (value: UtmParams) => void;
+  presets: UtmPresetOption[];
+  disabled?: boolean;
+}
+
+const FIELD_PLACEHOLDERS: Record<(typeof UTM_FIELDS)[number], string> = {
+  source: "newsletter",
+  medium: "email",
+  campaign: "spring_sale",
+  term: "running shoes",
+  content: "header_link",
+};
+
+export function UtmBuilder({ url, value, onChange, presets, disabled }: UtmBuilderProps) {
+  const [open, setOpen] = useState(false);
+  const [presetName, setPresetName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const utm = value ?? {};
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    // Start from whatever UTM parameters the URL already has
+    if (nextOpen && value === null) {
+      onChange(extractUtmParams(url));
+    }
+  };
+
+  const applyPreset = (preset: UtmPresetOption) => {
+    onChange(Object.fromEntries(UTM_FIELDS.map((field) => [field, preset[field] ?? ""])));
+  };
+
+  const handleSavePreset = async () => {
+    setError("");
+    setIsSaving(true);
+    try {
+      const result = await saveUtmPreset({ name: presetName, ...utm });
+      if (result.success) {
+        setPresetName("");
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePreset = async (id: number) => {
+    setError("");
+    try {
+      const result = await deleteUtmPresetAction({ id });
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    }
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={handleOpenChange} className="grid gap-2">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" className="justify-between px-0" disabled={disabled}>
+          UTM Parameters
+          <ChevronDown className={cn("w-4 h-4 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="grid gap-3">
+        {presets.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-sm text-muted-foreground">Presets:</span>
+            {presets.map((preset) => (
+              <Badge key={preset.id} variant="outline" className="gap-0 p-0">
+                <button
+                  type="button"
+                  className="px-2 py-0.5"
+                  onClick={() => applyPreset(preset)}
+                  disabled={disabled}
+                >
+                  {preset.name}
+                </button>
+                <button
+                  type="button"
+                  className="border-l px-1 py-0.5"
+                  onClick={() => handleDeletePreset(preset.id)}
+                  disabled={disabled}
+                  aria-label={`Delete preset ${preset.name}`}
+                >
+                  <X />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          {UTM_FIELDS.map((field) => (
+            <div key={field} className="grid gap-1">
+              <Label htmlFor={`utm_${field}`}>utm_{field}</Label>
+              <Input
+                id={`utm_${field}`}
+                type="text"
+                placeholder={FIELD_PLACEHOLDERS[field]}
+                value={utm[field] ?? ""}
+                onChange={(e) => onChange({ ...utm, [field]: e.target.value })}
+                disabled={disabled}
+                maxLength={200}
+              />
+            </div>
+          ))}
+        </div>
+        {url && (
+          <p className="text-sm text-muted-foreground break-all">
+            Final URL: <span className="font-mono">{applyUtmParams(url, utm)}</span>
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Input
+            type="text"
+            placeholder="Preset name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            disabled={disabled || isSaving}
+            maxLength={50}
+            aria-label="Preset name"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSavePreset}
+            disabled={disabled || isSaving || !presetName.trim()}
+          >
+            {isSaving ? "Saving..." : "Save Preset"}
+          </Button>
+        </div>
+        {error && (
+          <div className="text-sm text-destructive">{error}</div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
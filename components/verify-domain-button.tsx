@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { verifyDomainAction } from "@/app/dashboard/domains/actions";
+
+interface VerifyDomainButtonProps {
+  domainId: number;
+}
+
+export function VerifyDomainButton({ domainId }: VerifyDomainButtonProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const handleVerify = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await verifyDomainAction({ id: domainId });
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant="outline" size="sm" onClick={handleVerify} disabled={isLoading}>
+        <ShieldCheck className="w-4 h-4" />
+        {isLoading ? "Checking..." : "Verify"}
+      </Button>
+      {error && (
+        <div className="text-destructive text-sm max-w-sm text-right">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { db } from "@/db";
+import { clicks } from "@/db/schema";
+import { and, count, desc, eq, gte, isNotNull, lte, sql } from "drizzle-orm";
+import { parseUserAgent } from "@/lib/user-agent";
+
+export type TimeBucket = "hour" | "day" | "week";
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export interface CountEntry {
+  label: string;
+  clicks: number;
+}
+
+const BUCKET_MS: Record<TimeBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+function rangeFilter(linkId: number, { from, to }: DateRange) {
+  return and(
+    eq(clicks.linkId, linkId),
+    gte(clicks.clickedAt, from),
+    lte(clicks.clickedAt, to)
+  );
+}
+
+// Mirrors Postgres date_trunc in UTC, where weeks start on Monday
+function truncateDate(date: Date, bucket: TimeBucket): Date {
+  const truncated = new Date(date);
+  truncated.setUTCMinutes(0, 0, 0);
+  if (bucket === "hour") {
+    return truncated;
+  }
+  truncated.setUTCHours(0);
+  if (bucket === "week") {
+    const daysSinceMonday = (truncated.getUTCDay() + 6) % 7;
+    truncated.setUTCDate(truncated.getUTCDate() - daysSinceMonday);
+  }
+  return truncated;
+}
+
+/**
+ * Fetches click counts for a link grouped into time buckets
+ * @param linkId - The link's id
+ * @param range - The date range to aggregate
+ * @param bucket - Bucket size (hour, day or week)
+ * @returns One entry per bucket in the range, including empty buckets
+ */
+export async function getClicksOverTime(
+  linkId: number,
+  range: DateRange,
+  bucket: TimeBucket
+): Promise<{ bucket: Date; clicks: number }[]> {
+  // bucket is a closed union, so it's safe to inline for GROUP BY matching
+  const bucketExpr = sql<string>`date_trunc('${sql.raw(bucket)}', ${clicks.clickedAt} at time zone 'UTC')`;
+  const rows = await db
+    .select({ bucket: bucketExpr, clicks: count() })
+    .from(clicks)
+    .where(rangeFilter(linkId, range))
+    .groupBy(bucketExpr);
+
+  const countsByBucket = new Map(
+    // Raw timestamps come back as "YYYY-MM-DD HH:MM:SS" strings in UTC
+    rows.map((row) => [new Date(`${row.bucket.replace(" ", "T")}Z`).getTime(), row.clicks])
+  );
+
+  const series: { bucket: Date; clicks: number }[] = [];
+  const end = range.to.getTime();
+  for (
+    let time = truncateDate(range.from, bucket).getTime();
+    time <= end;
+    time = truncateDate(new Date(time + BUCKET_MS[bucket]), bucket).getTime()
+  ) {
+    series.push({ bucket: new Date(time), clicks: countsByBucket.get(time) ?? 0 });
+  }
+  return series;
+}
+
+/**
+ * Fetches the referrers sending the most clicks to a link
+ * @param linkId - The link's id
+ * @param range - The date range to aggregate
+ * @param limit - Maximum number of referrers to return
+ * @returns Referrer hosts with click counts, "Direct" for clicks without a referrer
+ */
+export async function getTopReferrers(
+  linkId: number,
+  range: DateRange,
+  limit = 10
+): Promise<CountEntry[]> {
+  const hostExpr = sql<string | null>`substring(${clicks.referrer} from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/?#]+)')`;
+  const rows = await db
+    .select({ label: hostExpr, clicks: count() })
+    .from(clicks)
+    .where(rangeFilter(linkId, range))
+    .groupBy(hostExpr)
+    .orderBy(desc(count()))
+    .limit(limit);
+  return rows.map((row) => ({ label: row.label || "Direct", clicks: row.clicks }));
+}
+
+/**
+ * Fetches the preferred languages of a link's visitors
+ * @param linkId - The link's id
+ * @param range - The date range to aggregate
+ * @param limit - Maximum number of languages to return
+ * @returns Primary Accept-Language tags with click counts
+ */
+export async function getTopLanguages(
+  linkId: number,
+  range: DateRange,
+  limit = 10
+): Promise<CountEntry[]> {
+  const languageExpr = sql<string | null>`nullif(lower(trim(split_part(split_part(${clicks.acceptLanguage}, ',', 1), ';', 1))), '')`;
+  const rows = await db
+    .select({ label: languageExpr, clicks: count() })
+    .from(clicks)
+    .where(rangeFilter(linkId, range))
+    .groupBy(languageExpr)
+    .orderBy(desc(count()))
+    .limit(limit);
+  return rows.map((row) => ({ label: row.label || "Unknown", clicks: row.clicks }));
+}
+
+/**
+ * Fetches browser and operating system breakdowns for a link
+ * @param linkId - The link's id
+ * @param range - The date range to aggregate
+ * @returns Click counts per browser and per OS, sorted by clicks
+ */
+export async function getBrowserAndOsBreakdown(
+  linkId: number,
+  range: DateRange
+): Promise<{ browsers: CountEntry[]; operatingSystems: CountEntry[] }> {
+  // User agents are too varied to classify in SQL, so group raw strings and parse here
+  const rows = await db
+    .select({ userAgent: clicks.userAgent, clicks: count() })
+    .from(clicks)
+    .where(rangeFilter(linkId, range))
+    .groupBy(clicks.userAgent);
+
+  const browsers = new Map<string, number>();
+  const operatingSystems = new Map<string, number>();
+  for (const row of rows) {
+    const { browser, os } = parseUserAgent(row.userAgent);
+    browsers.set(browser, (browsers.get(browser) ?? 0) + row.clicks);
+    operatingSystems.set(os, (operatingSystems.get(os) ?? 0) + row.clicks);
+  }
+
+  const toEntries = (counts: Map<string, number>) =>
+    Array.from(counts, ([label, clicks]) => ({ label, clicks })).sort(
+      (a, b) => b.clicks - a.clicks
+    );
+
+  return {
+    browsers: toEntries(browsers),
+    operatingSystems: toEntries(operatingSystems),
+  };
+}
+
+/**
+ * Fetches click counts per split-test variant for a link
+ * @param linkId - The link's id
+ * @param range - The date range to aggregate
+ * @returns Map from variant id to click count, clicks without a variant are left out
+ */
+export async function getClicksByVariant(
+  linkId: number,
+  range: DateRange
+): Promise<Map<number, number>> {
+  const rows = await db
+    .select({ variantId: clicks.variantId, clicks: count() })
+    .from(clicks)
+    .where(and(rangeFilter(linkId, range), isNotNull(clicks.variantId)))
+    .groupBy(clicks.variantId);
+  return new Map(rows.map((row) => [row.variantId!, row.clicks]));
+}
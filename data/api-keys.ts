@@ -0,0 +1,62 @@
+import { db } from "@/db";
+import { apiKeys, type NewApiKey } from "@/db/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+
+/**
+ * Fetches all API keys for a user, including revoked ones
+ * @param userId - The authenticated user's ID from Clerk
+ * @returns Array of API keys, newest first
+ */
+export async function getUserApiKeys(userId: string) {
+  return await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt));
+}
+
+/**
+ * Inserts a new API key
+ * @param data - The key data, with the key already hashed
+ * @returns The newly created API key
+ */
+export async function insertApiKey(data: NewApiKey) {
+  const [apiKey] = await db.insert(apiKeys).values(data).returning();
+  return apiKey;
+}
+
+/**
+ * Revokes an API key, ensuring the user owns it
+ * @param id - The API key's id
+ * @param userId - The authenticated user's ID
+ * @returns true if revoked, false if not found, not owned or already revoked
+ */
+export async function revokeApiKey(id: number, userId: string): Promise<boolean> {
+  const revoked = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+    .returning({ id: apiKeys.id });
+  return revoked.length > 0;
+}
+
+/**
+ * Looks up an active (non-revoked) API key by its hash
+ * @param keyHash - SHA-256 hash of the presented key
+ * @returns The API key if found and active, null otherwise
+ */
+export async function getActiveApiKeyByHash(keyHash: string) {
+  const [apiKey] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, keyHash), isNull(apiKeys.revokedAt)));
+  return apiKey || null;
+}
+
+/**
+ * Records that an API key was just used
+ * @param id - The API key's id
+ */
+export async function touchApiKey(id: number) {
+  await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+}
@@ -0,0 +1,37 @@
+import { db } from "@/db";
+import { blockedDomains, type NewBlockedDomain } from "@/db/schema";
+import { asc, eq } from "drizzle-orm";
+
+/**
+ * Fetches the destination domain blocklist
+ * @returns Blocked domains ordered by domain
+ */
+export async function getBlockedDomains() {
+  return await db
+    .select()
+    .from(blockedDomains)
+    .orderBy(asc(blockedDomains.domain));
+}
+
+/**
+ * Adds a domain to the blocklist
+ * @param data - The normalised domain, optional reason and the admin adding it
+ * @returns The new blocklist entry
+ */
+export async function insertBlockedDomain(data: NewBlockedDomain) {
+  const [entry] = await db.insert(blockedDomains).values(data).returning();
+  return entry;
+}
+
+/**
+ * Removes a domain from the blocklist
+ * @param id - The entry's id
+ * @returns true if deleted, false if not found
+ */
+export async function deleteBlockedDomain(id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(blockedDomains)
+    .where(eq(blockedDomains.id, id))
+    .returning({ id: blockedDomains.id });
+  return deleted.length > 0;
+}
@@ -0,0 +1,168 @@
+import { db } from "@/db";
+import { customDomains, links, type CustomDomain } from "@/db/schema";
+import { and, asc, count, eq, isNotNull, isNull } from "drizzle-orm";
+import { assertLinkPermission, type Workspace } from "@/lib/workspaces";
+
+/**
+ * Builds the condition matching the domains that belong to a workspace
+ */
+function inWorkspace(workspace: Workspace) {
+  return workspace.orgId
+    ? eq(customDomains.orgId, workspace.orgId)
+    : and(eq(customDomains.userId, workspace.userId), isNull(customDomains.orgId));
+}
+
+/**
+ * Fetches a workspace's custom domains
+ * @param workspace - The signed-in user's active workspace
+ * @returns Domains ordered by hostname
+ */
+export async function getWorkspaceDomains(workspace: Workspace) {
+  return await db
+    .select()
+    .from(customDomains)
+    .where(inWorkspace(workspace))
+    .orderBy(asc(customDomains.hostname));
+}
+
+/**
+ * Fetches one of a workspace's verified domains, e.g. to create a link on it
+ * @param id - The domain's id
+ * @param workspace - The signed-in user's active workspace
+ * @returns The domain if found, verified and in the workspace, null otherwise
+ */
+export async function getVerifiedWorkspaceDomain(id: number, workspace: Workspace) {
+  const [domain] = await db
+    .select()
+    .from(customDomains)
+    .where(and(eq(customDomains.id, id), inWorkspace(workspace), isNotNull(customDomains.verifiedAt)));
+  return domain || null;
+}
+
+/**
+ * Fetches the hostnames of every verified domain, which serve short links on all of their paths
+ * @returns The hostnames
+ */
+export async function getVerifiedDomainHostnames(): Promise<string[]> {
+  const rows = await db
+    .select({ hostname: customDomains.hostname })
+    .from(customDomains)
+    .where(isNotNull(customDomains.verifiedAt));
+  return rows.map((row) => row.hostname);
+}
+
+/**
+ * Fetches a verified domain by its hostname, e.g. to serve its app association files
+ * @param hostname - The lowercase hostname
+ * @returns The domain, or null if no workspace has verified it
+ */
+export async function getVerifiedDomainByHostname(hostname: string) {
+  const [domain] = await db
+    .select()
+    .from(customDomains)
+    .where(and(eq(customDomains.hostname, hostname), isNotNull(customDomains.verifiedAt)));
+  return domain || null;
+}
+
+/**
+ * Adds an unverified domain to a workspace
+ * @param hostname - The normalised hostname
+ * @param verificationToken - The token the owner must publish in DNS
+ * @param workspace - The signed-in user's active workspace
+ * @returns The new domain, or null if the workspace already has it
+ */
+export async function insertDomain(hostname: string, verificationToken: string, workspace: Workspace) {
+  assertLinkPermission(workspace, "manageDomains");
+  const [existing] = await db
+    .select({ id: customDomains.id })
+    .from(customDomains)
+    .where(and(eq(customDomains.hostname, hostname), inWorkspace(workspace)));
+  if (existing) {
+    return null;
+  }
+  const [domain] = await db
+    .insert(customDomains)
+    .values({ hostname, verificationToken, userId: workspace.userId, orgId: workspace.orgId })
+    .returning();
+  return domain;
+}
+
+/**
+ * Fetches one of a workspace's domains
+ * @param id - The domain's id
+ * @param workspace - The signed-in user's active workspace
+ * @returns The domain if found in the workspace, null otherwise
+ */
+export async function getWorkspaceDomainById(id: number, workspace: Workspace) {
+  const [domain] = await db
+    .select()
+    .from(customDomains)
+    .where(and(eq(customDomains.id, id), inWorkspace(workspace)));
+  return domain || null;
+}
+
+/**
+ * Marks a workspace's domain as verified once its DNS record has been checked
+ * @param id - The domain's id
+ * @param workspace - The signed-in user's active workspace
+ * @returns The updated domain, or null if not found in the workspace
+ */
+export async function markDomainVerified(id: number, workspace: Workspace) {
+  assertLinkPermission(workspace, "manageDomains");
+  const [domain] = await db
+    .update(customDomains)
+    .set({ verifiedAt: new Date() })
+    .where(and(eq(customDomains.id, id), inWorkspace(workspace)))
+    .returning();
+  return domain || null;
+}
+
+/**
+ * Sets the apple-app-site-association and assetlinks.json a workspace's domain serves
+ * @param id - The domain's id
+ * @param workspace - The signed-in user's active workspace
+ * @param association - The parsed files; null stops serving that file
+ * @returns The updated domain, or null if not found in the workspace
+ */
+export async function updateDomainAppAssociation(
+  id: number,
+  workspace: Workspace,
+  association: Pick<CustomDomain, "appleAppSiteAssociation" | "androidAssetLinks">
+) {
+  assertLinkPermission(workspace, "manageDomains");
+  const [domain] = await db
+    .update(customDomains)
+    .set(association)
+    .where(and(eq(customDomains.id, id), inWorkspace(workspace)))
+    .returning();
+  return domain || null;
+}
+
+/**
+ * Removes a workspace's domain, which is only allowed once no links use it
+ * @param id - The domain's id
+ * @param workspace - The signed-in user's active workspace
+ * @returns "deleted", "in-use" if links (including trashed ones) still use it, or "not-found"
+ */
+export async function deleteDomain(
+  id: number,
+  workspace: Workspace
+): Promise<"deleted" | "in-use" | "not-found"> {
+  assertLinkPermission(workspace, "manageDomains");
+  const domain = await getWorkspaceDomainById(id, workspace);
+  if (!domain) {
+    return "not-found";
+  }
+  const [usage] = await db
+    .select({ value: count() })
+    .from(links)
+    .where(eq(links.domainId, id));
+  if (usage && usage.value > 0) {
+    return "in-use";
+  }
+  const deleted = await db
+    .delete(customDomains)
+    .where(and(eq(customDomains.id, id), inWorkspace(workspace)))
+    .returning({ id: customDomains.id });
+  return deleted.length > 0 ? "deleted" : "not-found";
+}
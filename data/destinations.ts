@@ -0,0 +1,38 @@
+import { headers } from "next/headers";
+import { getBlockedDomains } from "@/data/blocked-domains";
+import { getVerifiedDomainHostnames } from "@/data/custom-domains";
+import { getAppHosts, parseHostHeader } from "@/lib/custom-domains";
+import { checkDestinationUrl, type DestinationContext } from "@/lib/url-safety";
+
+/**
+ * Loads what the destination safety checks need: the app's own hosts and the domain blocklist.
+ * The app's hosts are every one in APP_HOST plus the request's Host, which covers local development.
+ * Works in server actions and route handlers alike.
+ * @returns The context for checkDestinationUrl
+ */
+export async function getDestinationContext(): Promise<DestinationContext> {
+  const [requestHeaders, customDomains, blockedDomains] = await Promise.all([
+    headers(),
+    getVerifiedDomainHostnames(),
+    getBlockedDomains(),
+  ]);
+  const requestHost = parseHostHeader(requestHeaders.get("host"));
+  const appHosts = requestHost ? [...getAppHosts(), requestHost] : getAppHosts();
+  return { appHosts, customDomains, blockedDomains };
+}
+
+/**
+ * Runs the destination safety checks on a link's URL and on its placeholder URL, if it has one
+ * @param url - The final destination URL
+ * @param placeholderUrl - Where visitors go before a scheduled link is live
+ * @returns A human-readable reason one of them is rejected, or null if both are allowed
+ */
+export async function checkLinkUrls(url: string, placeholderUrl: string | null | undefined) {
+  const context = await getDestinationContext();
+  const unsafeReason = checkDestinationUrl(url, context);
+  if (unsafeReason || !placeholderUrl) {
+    return unsafeReason;
+  }
+  const unsafePlaceholderReason = checkDestinationUrl(placeholderUrl, context);
+  return unsafePlaceholderReason && `Placeholder URL: ${unsafePlaceholderReason}`;
+}
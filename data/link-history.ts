@@ -0,0 +1,30 @@
+import { db } from "@/db";
+import { linkHistory } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+
+/**
+ * Fetches the change history of a link
+ * @param linkId - The link's id
+ * @returns History entries, newest first
+ */
+export async function getLinkHistory(linkId: number) {
+  return await db
+    .select()
+    .from(linkHistory)
+    .where(eq(linkHistory.linkId, linkId))
+    .orderBy(desc(linkHistory.createdAt), desc(linkHistory.id));
+}
+
+/**
+ * Fetches a single history entry, ensuring it belongs to the given link
+ * @param id - The entry's id
+ * @param linkId - The link's id
+ * @returns The entry if found, null otherwise
+ */
+export async function getLinkHistoryEntry(id: number, linkId: number) {
+  const [entry] = await db
+    .select()
+    .from(linkHistory)
+    .where(and(eq(linkHistory.id, id), eq(linkHistory.linkId, linkId)));
+  return entry || null;
+}
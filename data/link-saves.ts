@@ -0,0 +1,166 @@
+import { after } from "next/server";
+import { getVerifiedWorkspaceDomain } from "@/data/custom-domains";
+import { checkLinkUrls } from "@/data/destinations";
+import { insertLink, insertLinkWithGeneratedShortCode, updateLink } from "@/data/links";
+import { setLinkTags } from "@/data/tags";
+import { dispatchWebhookEvent } from "@/data/webhooks";
+import type { Link } from "@/db/schema";
+import { isUniqueViolation } from "@/lib/db-errors";
+import { createLinkSchema, editLinkSchema, parseDestinationUrl } from "@/lib/link-schemas";
+import { hashPassword } from "@/lib/password";
+import type { UtmParams } from "@/lib/utm";
+import { linkEventData } from "@/lib/webhooks";
+import { linkOwnerId, workspaceOwnerId, type Workspace } from "@/lib/workspaces";
+
+/**
+ * The outcome of creating or editing a link. Failures say why, so the dashboard can show the
+ * message and the API can pick a status code.
+ */
+export type SaveLinkResult =
+  | { success: true; data: Link }
+  | { success: false; error: string; reason: "invalid" | "notFound" | "conflict" };
+
+const SHORT_CODE_TAKEN_ERROR = "This short code is already in use. Please try another one.";
+
+/**
+ * Validates a link's destination after merging its UTM parameters, and checks it and the
+ * placeholder against the destination safety rules
+ * @param url - The destination URL as entered
+ * @param utm - UTM parameters to merge into it
+ * @param placeholderUrl - Where visitors go before a scheduled link is live
+ * @returns The final destination URL, or the reason it's rejected
+ */
+async function resolveDestination(
+  url: string,
+  utm: UtmParams | undefined,
+  placeholderUrl: string | null | undefined
+): Promise<{ url: string; error?: undefined } | { url?: undefined; error: string }> {
+  const urlResult = parseDestinationUrl(url, utm);
+  if (!urlResult.success) {
+    return { error: urlResult.error.issues[0].message };
+  }
+  const unsafeReason = await checkLinkUrls(urlResult.data, placeholderUrl);
+  return unsafeReason ? { error: unsafeReason } : { url: urlResult.data };
+}
+
+/**
+ * Creates a link the way both the dashboard and the API do: validation, UTM parameters, the
+ * destination safety rules, the custom domain, the password, tags and the link.created webhook
+ * @param input - The submitted fields, validated against createLinkSchema here
+ * @param workspace - The workspace to create the link in
+ * @returns The new link, or why it couldn't be created
+ * @throws LinkPermissionError if the workspace role can't create links, and on database errors
+ */
+export async function createLinkFromInput(
+  input: unknown,
+  workspace: Workspace
+): Promise<SaveLinkResult> {
+  const validationResult = createLinkSchema.safeParse(input);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message, reason: "invalid" };
+  }
+  const validData = validationResult.data;
+
+  const destination = await resolveDestination(validData.url, validData.utm, validData.placeholderUrl);
+  if (destination.error !== undefined) {
+    return { success: false, error: destination.error, reason: "invalid" };
+  }
+
+  if (validData.domainId && !(await getVerifiedWorkspaceDomain(validData.domainId, workspace))) {
+    return { success: false, error: "Domain not found or not verified", reason: "invalid" };
+  }
+
+  const passwordHash = validData.password ? await hashPassword(validData.password) : null;
+  const data = {
+    domainId: validData.domainId ?? null,
+    url: destination.url,
+    activeFrom: validData.activeFrom,
+    placeholderUrl: validData.placeholderUrl,
+    expiresAt: validData.expiresAt,
+    maxClicks: validData.maxClicks,
+    passwordHash,
+    forcePreview: validData.forcePreview,
+  };
+
+  let newLink: Link;
+  try {
+    newLink = validData.shortCode
+      ? await insertLink({ ...data, shortCode: validData.shortCode }, workspace)
+      : await insertLinkWithGeneratedShortCode(data, workspace);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { success: false, error: SHORT_CODE_TAKEN_ERROR, reason: "conflict" };
+    }
+    throw error;
+  }
+
+  if (validData.tags?.length) {
+    await setLinkTags(newLink.id, workspaceOwnerId(workspace), validData.tags);
+  }
+
+  after(() => dispatchWebhookEvent(linkOwnerId(newLink), "link.created", linkEventData(newLink)));
+  return { success: true, data: newLink };
+}
+
+/**
+ * Edits a link the way both the dashboard and the API do; see createLinkFromInput
+ * @param input - The link's id and its complete fields, validated against editLinkSchema here
+ * @param workspace - The workspace the link must be in
+ * @returns The updated link, or why it couldn't be updated
+ * @throws LinkPermissionError if the workspace role can't edit links, and on database errors
+ */
+export async function editLinkFromInput(
+  input: unknown,
+  workspace: Workspace
+): Promise<SaveLinkResult> {
+  const validationResult = editLinkSchema.safeParse(input);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message, reason: "invalid" };
+  }
+  const validData = validationResult.data;
+
+  const destination = await resolveDestination(validData.url, validData.utm, validData.placeholderUrl);
+  if (destination.error !== undefined) {
+    return { success: false, error: destination.error, reason: "invalid" };
+  }
+
+  // Undefined keeps the current password
+  let passwordHash: string | null | undefined;
+  if (validData.password) {
+    passwordHash = await hashPassword(validData.password);
+  } else if (validData.removePassword) {
+    passwordHash = null;
+  }
+
+  let updatedLink: Link | null;
+  try {
+    updatedLink = await updateLink({
+      id: validData.id,
+      workspace,
+      url: destination.url,
+      shortCode: validData.shortCode,
+      activeFrom: validData.activeFrom ?? null,
+      placeholderUrl: validData.placeholderUrl ?? null,
+      expiresAt: validData.expiresAt ?? null,
+      maxClicks: validData.maxClicks ?? null,
+      passwordHash,
+      forcePreview: validData.forcePreview,
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { success: false, error: SHORT_CODE_TAKEN_ERROR, reason: "conflict" };
+    }
+    throw error;
+  }
+  if (!updatedLink) {
+    return { success: false, error: "Link not found or not owned by user", reason: "notFound" };
+  }
+
+  if (validData.tags) {
+    await setLinkTags(updatedLink.id, workspaceOwnerId(workspace), validData.tags);
+  }
+
+  const link = updatedLink;
+  after(() => dispatchWebhookEvent(linkOwnerId(link), "link.updated", linkEventData(link)));
+  return { success: true, data: link };
+}
@@ -0,0 +1,105 @@
+import { db } from "@/db";
+import { links, linkVariants, type LinkVariant } from "@/db/schema";
+import { and, asc, eq, inArray, notInArray } from "drizzle-orm";
+import { invalidateLinkCache } from "@/data/links";
+
+export type LinkVariantValues = Pick<LinkVariant, "url" | "weight"> & {
+  // Existing variants keep their id so recorded clicks stay attributed to them
+  id?: number;
+};
+
+/**
+ * Fetches a link's split-test variants
+ * @param linkId - The link's id
+ * @returns Variants in display order
+ */
+export async function getLinkVariants(linkId: number) {
+  return await db
+    .select()
+    .from(linkVariants)
+    .where(eq(linkVariants.linkId, linkId))
+    .orderBy(asc(linkVariants.position));
+}
+
+/**
+ * Fetches the split-test variants of each of the given links
+ * @param linkIds - The links' ids
+ * @returns Map from link id to its variants, in display order
+ */
+export async function getVariantsForLinks(
+  linkIds: number[]
+): Promise<Map<number, LinkVariant[]>> {
+  const variantsByLink = new Map<number, LinkVariant[]>();
+  if (linkIds.length === 0) {
+    return variantsByLink;
+  }
+
+  const rows = await db
+    .select()
+    .from(linkVariants)
+    .where(inArray(linkVariants.linkId, linkIds))
+    .orderBy(asc(linkVariants.linkId), asc(linkVariants.position));
+
+  for (const row of rows) {
+    variantsByLink.set(row.linkId, [...(variantsByLink.get(row.linkId) ?? []), row]);
+  }
+  return variantsByLink;
+}
+
+/**
+ * Replaces a link's split-test variants and its sticky setting
+ * @param linkId - The link's id; the caller must have checked ownership
+ * @param variants - The complete list of variants, in display order
+ * @param sticky - Whether returning visitors keep their variant
+ */
+export async function setLinkVariants(
+  linkId: number,
+  variants: LinkVariantValues[],
+  sticky: boolean
+) {
+  const existing = await db
+    .select({ id: linkVariants.id })
+    .from(linkVariants)
+    .where(eq(linkVariants.linkId, linkId));
+  const existingIds = new Set(existing.map((variant) => variant.id));
+
+  // Ids that don't belong to this link are treated as new variants
+  const kept = variants
+    .map((variant, position) => ({ ...variant, position }))
+    .filter((variant) => variant.id !== undefined && existingIds.has(variant.id));
+  const added = variants
+    .map((variant, position) => ({ ...variant, position }))
+    .filter((variant) => variant.id === undefined || !existingIds.has(variant.id));
+  const keptIds = kept.map((variant) => variant.id!);
+
+  // Batched so visitors never see a partial set of weights
+  const [updatedLinks] = await db.batch([
+    db
+      .update(links)
+      .set({ stickyVariants: sticky })
+      .where(eq(links.id, linkId))
+      .returning({ shortCode: links.shortCode, domainId: links.domainId }),
+    db
+      .delete(linkVariants)
+      .where(
+        keptIds.length > 0
+          ? and(eq(linkVariants.linkId, linkId), notInArray(linkVariants.id, keptIds))
+          : eq(linkVariants.linkId, linkId)
+      ),
+    ...kept.map((variant) =>
+      db
+        .update(linkVariants)
+        .set({ url: variant.url, weight: variant.weight, position: variant.position })
+        .where(eq(linkVariants.id, variant.id!))
+    ),
+    ...(added.length > 0
+      ? [
+          db.insert(linkVariants).values(
+            added.map(({ url, weight, position }) => ({ linkId, url, weight, position }))
+          ),
+        ]
+      : []),
+  ]);
+  // The link update bumps updatedAt, so cached copies on other instances are seen as stale too
+  await invalidateLinkCache(updatedLinks);
+}
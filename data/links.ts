@@ -1,85 +1,820 @@
 import { db } from "@/db";
-import { links, type NewLink } from "@/db/schema";
-import { eq, desc } from "drizzle-orm";
+import { links, clicks, linkTags, tags, linkHistory, customDomains, type Link, type NewLink, type NewClick } from "@/db/schema";
+import { eq, asc, desc, count, countDistinct, gte, lte, gt, lt, isNull, isNotNull, or, sql, inArray, ilike, type SQL } from "drizzle-orm";
 import { and } from "drizzle-orm";
+import type { AppLinkFields } from "@/lib/app-links";
+import { generateShortCode } from "@/lib/short-code";
+import { isUniqueViolation } from "@/lib/db-errors";
+import { deleteUnusedTags } from "@/data/tags";
+import { toLinkSnapshot, snapshotsEqual } from "@/lib/link-history";
+import { invalidateCachedLinks } from "@/lib/link-cache";
+import { assertLinkPermission, workspaceOwnerId, type LinkPermission, type Workspace } from "@/lib/workspaces";
+
+const SHORT_CODE_CONSTRAINT = "links_domain_id_short_code_unique";
+const MAX_SHORT_CODE_ATTEMPTS = 5;
+const MAX_UNLOCK_ATTEMPTS = 5;
+const UNLOCK_LOCKOUT_MINUTES = 15;
+
+export type LinkSortField = "updated" | "created" | "shortCode" | "clicks";
+export type SortOrder = "asc" | "desc";
+
+interface SortColumn {
+  expression: SQL;
+  value: (link: Link) => string | number;
+  // Cursors come from URLs, so their values are checked before being cast in SQL
+  isValidValue: (value: string | number) => boolean;
+  param: (value: string | number) => SQL;
+}
+
+const MAX_INTEGER = 2 ** 31 - 1;
+
+// Cursor timestamps are always written by toISOString, so anything else was tampered with
+const isIsoTimestamp = (value: string | number) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value)) && new Date(value).toISOString() === value;
+
+// Timestamps are compared at millisecond precision because cursors round-trip through JS Dates
+const LINK_SORT_COLUMNS: Record<LinkSortField, SortColumn> = {
+  updated: {
+    expression: sql`date_trunc('milliseconds', ${links.updatedAt})`,
+    value: (link) => link.updatedAt.toISOString(),
+    isValidValue: isIsoTimestamp,
+    param: (value) => sql`${value}::timestamptz`,
+  },
+  created: {
+    expression: sql`date_trunc('milliseconds', ${links.createdAt})`,
+    value: (link) => link.createdAt.toISOString(),
+    isValidValue: isIsoTimestamp,
+    param: (value) => sql`${value}::timestamptz`,
+  },
+  shortCode: {
+    expression: sql`${links.shortCode}`,
+    value: (link) => link.shortCode,
+    isValidValue: (value) => typeof value === "string",
+    param: (value) => sql`${String(value)}`,
+  },
+  clicks: {
+    expression: sql`${links.clickCount}`,
+    value: (link) => link.clickCount,
+    isValidValue: (value) => Number.isInteger(value) && Math.abs(value as number) <= MAX_INTEGER,
+    param: (value) => sql`${Number(value)}::integer`,
+  },
+};
+
+/**
+ * Builds the condition matching the links that belong to a workspace
+ */
+function inWorkspace(workspace: Workspace) {
+  return workspace.orgId
+    ? eq(links.orgId, workspace.orgId)
+    : and(eq(links.userId, workspace.userId), isNull(links.orgId));
+}
+
+/**
+ * Drops the cached lookups of links' short codes so changes to them take effect immediately
+ * @param changed - The links, or their short codes before a rename
+ */
+export async function invalidateLinkCache(changed: Pick<Link, "shortCode" | "domainId">[]) {
+  const domainIds = [
+    ...new Set(changed.flatMap((link) => (link.domainId === null ? [] : [link.domainId]))),
+  ];
+  const hostnames = new Map<number, string>();
+  if (domainIds.length > 0) {
+    const domains = await db
+      .select({ id: customDomains.id, hostname: customDomains.hostname })
+      .from(customDomains)
+      .where(inArray(customDomains.id, domainIds));
+    for (const domain of domains) {
+      hostnames.set(domain.id, domain.hostname);
+    }
+  }
+  await invalidateCachedLinks(
+    changed.flatMap((link) => {
+      const customDomain = link.domainId === null ? null : hostnames.get(link.domainId);
+      // A link's domain can't be removed while the link exists, so a missing one has nothing cached
+      return customDomain === undefined ? [] : [{ shortCode: link.shortCode, customDomain }];
+    })
+  );
+}
+
+/**
+ * Builds a subquery of the workspace's link ids that have every one of the given tags
+ */
+function linkIdsWithAllTags(workspace: Workspace, tagNames: string[]) {
+  return db
+    .select({ linkId: linkTags.linkId })
+    .from(linkTags)
+    .innerJoin(tags, eq(linkTags.tagId, tags.id))
+    .where(and(eq(tags.userId, workspaceOwnerId(workspace)), inArray(tags.name, tagNames)))
+    .groupBy(linkTags.linkId)
+    .having(eq(countDistinct(tags.id), tagNames.length));
+}
+
+function encodeCursor(value: string | number, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url");
+}
 
 /**
- * Fetches all links for a specific user
- * @param userId - The authenticated user's ID from Clerk
- * @returns Array of links belonging to the user
+ * Reads a cursor, rejecting ones whose value doesn't fit the sort column, e.g. from a URL
+ * shared with a different sort
+ * @returns The last row's sort value and id, or null to start from the first page
  */
-export async function getUserLinks(userId: string) {
+function decodeCursor(cursor: string, column: SortColumn): [string | number, number] | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      (typeof decoded[0] === "string" || typeof decoded[0] === "number") &&
+      column.isValidValue(decoded[0]) &&
+      Number.isInteger(decoded[1]) &&
+      Math.abs(decoded[1]) <= MAX_INTEGER
+    ) {
+      return [decoded[0], decoded[1]];
+    }
+  } catch {
+    // Fall through to treat malformed cursors as "start from the beginning"
+  }
+  return null;
+}
+
+/**
+ * Fetches all links in a workspace
+ * @param workspace - The signed-in user's active workspace
+ * @param tagNames - Optional tag names; only links with every one of these tags are returned
+ * @returns Array of links belonging to the workspace
+ */
+export async function getUserLinks(workspace: Workspace, { tagNames = [] }: { tagNames?: string[] } = {}) {
   // Return links ordered by updatedAt descending (latest first)
   return await db
     .select()
     .from(links)
-    .where(eq(links.userId, userId))
+    .where(
+      and(
+        inWorkspace(workspace),
+        isNull(links.deletedAt),
+        tagNames.length > 0 ? inArray(links.id, linkIdsWithAllTags(workspace, tagNames)) : undefined
+      )
+    )
     .orderBy(desc(links.updatedAt));
 }
 
 /**
- * Inserts a new link into the database
+ * Fetches one page of a workspace's links with search, tag filtering and sorting
+ * @param workspace - The signed-in user's active workspace
+ * @param search - Optional text matched against short code and URL
+ * @param tagNames - Optional tag names; only links with every one of these tags are returned
+ * @param sort - Field to sort by
+ * @param order - Sort direction
+ * @param cursor - Opaque cursor from a previous page's nextCursor
+ * @param limit - Page size
+ * @returns The page of links and the cursor for the next page, or null on the last page
+ */
+export async function searchUserLinks({
+  workspace,
+  search = "",
+  tagNames = [],
+  sort = "updated",
+  order = "desc",
+  cursor = null,
+  limit = 20,
+}: {
+  workspace: Workspace;
+  search?: string;
+  tagNames?: string[];
+  sort?: LinkSortField;
+  order?: SortOrder;
+  cursor?: string | null;
+  limit?: number;
+}): Promise<{ links: Link[]; nextCursor: string | null }> {
+  const column = LINK_SORT_COLUMNS[sort];
+  const direction = order === "asc" ? asc : desc;
+  const comparison = order === "asc" ? sql`>` : sql`<`;
+
+  const term = search.trim();
+  const pattern = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+  const position = cursor ? decodeCursor(cursor, column) : null;
+
+  const rows = await db
+    .select()
+    .from(links)
+    .where(
+      and(
+        inWorkspace(workspace),
+        isNull(links.deletedAt),
+        term ? or(ilike(links.shortCode, pattern), ilike(links.url, pattern)) : undefined,
+        tagNames.length > 0 ? inArray(links.id, linkIdsWithAllTags(workspace, tagNames)) : undefined,
+        // Keyset pagination: continue strictly after the last row of the previous page
+        position
+          ? sql`(${column.expression}, ${links.id}) ${comparison} (${column.param(position[0])}, ${position[1]})`
+          : undefined
+      )
+    )
+    .orderBy(direction(column.expression), direction(links.id))
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    links: page,
+    nextCursor: rows.length > limit && last ? encodeCursor(column.value(last), last.id) : null,
+  };
+}
+
+/**
+ * Fetches a single link, ensuring it belongs to the workspace
+ * @param id - The link's id
+ * @param workspace - The signed-in user's active workspace
+ * @param permission - What the caller is about to do with the link, checked against the workspace role
+ * @returns The link if found in the workspace, null otherwise
+ */
+export async function getUserLinkById(id: number, workspace: Workspace, permission: LinkPermission = "view") {
+  assertLinkPermission(workspace, permission);
+  const [link] = await db
+    .select()
+    .from(links)
+    .where(and(eq(links.id, id), inWorkspace(workspace), isNull(links.deletedAt)));
+  return link || null;
+}
+
+/**
+ * Inserts a new link into a workspace and records its creation in the link's history
  * @param data - The link data to insert
+ * @param workspace - The workspace the link is created in, by its signed-in user
  * @returns The newly created link
  */
-export async function insertLink(data: NewLink) {
-  const [newLink] = await db.insert(links).values(data).returning();
+export async function insertLink(data: Omit<NewLink, "userId" | "orgId">, workspace: Workspace) {
+  assertLinkPermission(workspace, "create");
+  const [newLink] = await db
+    .insert(links)
+    .values({ ...data, userId: workspace.userId, orgId: workspace.orgId })
+    .returning();
+  await db.insert(linkHistory).values({
+    linkId: newLink.id,
+    userId: newLink.userId,
+    action: "create",
+    after: toLinkSnapshot(newLink),
+  });
+  // The code may be cached as not found
+  await invalidateLinkCache([newLink]);
   return newLink;
 }
 
+/**
+ * Inserts a new link with a randomly generated short code, retrying on collisions
+ * @param data - The link data to insert, without a short code
+ * @param workspace - The workspace the link is created in, by its signed-in user
+ * @returns The newly created link
+ */
+export async function insertLinkWithGeneratedShortCode(
+  data: Omit<NewLink, "shortCode" | "userId" | "orgId">,
+  workspace: Workspace
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await insertLink({ ...data, shortCode: generateShortCode() }, workspace);
+    } catch (error) {
+      if (!isUniqueViolation(error, SHORT_CODE_CONSTRAINT)) {
+        throw error;
+      }
+      if (attempt >= MAX_SHORT_CODE_ATTEMPTS) {
+        throw new Error("Failed to generate a unique short code. Please try again.");
+      }
+    }
+  }
+}
+
+/**
+ * Inserts many links into a workspace at once, generating short codes for rows without one
+ * @param rows - The links to insert; rows without a short code get a random one
+ * @param workspace - The workspace the links are created in, by its signed-in user
+ * @returns The newly created links
+ */
+export async function insertLinks(
+  rows: (Omit<NewLink, "shortCode" | "userId" | "orgId"> & { shortCode?: string })[],
+  workspace: Workspace
+) {
+  assertLinkPermission(workspace, "create");
+  // A single multi-row INSERT is atomic, so either every link is created or none are
+  const hasGeneratedCodes = rows.some((row) => !row.shortCode);
+  for (let attempt = 1; ; attempt++) {
+    let inserted: Link[];
+    try {
+      inserted = await db
+        .insert(links)
+        .values(
+          rows.map((row) => ({
+            ...row,
+            userId: workspace.userId,
+            orgId: workspace.orgId,
+            shortCode: row.shortCode || generateShortCode(),
+          }))
+        )
+        .returning();
+    } catch (error) {
+      if (!hasGeneratedCodes || !isUniqueViolation(error, SHORT_CODE_CONSTRAINT)) {
+        throw error;
+      }
+      if (attempt >= MAX_SHORT_CODE_ATTEMPTS) {
+        throw new Error("Failed to generate unique short codes. Please try again.");
+      }
+      continue;
+    }
+    if (inserted.length > 0) {
+      await db.insert(linkHistory).values(
+        inserted.map((link) => ({
+          linkId: link.id,
+          userId: link.userId,
+          action: "create" as const,
+          after: toLinkSnapshot(link),
+        }))
+      );
+      await invalidateLinkCache(inserted);
+    }
+    return inserted;
+  }
+}
+
+/**
+ * Finds which of the given short codes are already taken on a domain, including by links in the trash
+ * @param shortCodes - The short codes to check
+ * @param domainId - The custom domain's id, or null for the app's own host
+ * @returns The subset of short codes that already exist
+ */
+export async function getExistingShortCodes(
+  shortCodes: string[],
+  domainId: number | null = null
+): Promise<string[]> {
+  if (shortCodes.length === 0) {
+    return [];
+  }
+  const rows = await db
+    .select({ shortCode: links.shortCode })
+    .from(links)
+    .where(
+      and(
+        inArray(links.shortCode, shortCodes),
+        domainId === null ? isNull(links.domainId) : eq(links.domainId, domainId)
+      )
+    );
+  return rows.map((row) => row.shortCode);
+}
+
 /**
  * Updates an existing link in the database
  * @param id - The link's id
- * @param userId - The authenticated user's ID
+ * @param workspace - The signed-in user's active workspace
  * @param url - The new URL
  * @param shortCode - The new short code
+ * @param activeFrom - When the link goes live, or null to make it live straight away
+ * @param placeholderUrl - Where visitors go before it's live, or null for the coming soon page
+ * @param expiresAt - The new expiry time, or null for no expiry
+ * @param maxClicks - The new click limit, or null for unlimited
+ * @param passwordHash - The new password hash, null to remove it, or undefined to keep it
+ * @param forcePreview - Whether to always show the preview page, or undefined to keep it
+ * @param action - How the change is labelled in the link's history
  * @returns The updated link
  */
-export async function updateLink({ id, userId, url, shortCode }: { id: number; userId: string; url: string; shortCode: string }) {
-  // Verify ownership first
+export async function updateLink({
+  id,
+  workspace,
+  url,
+  shortCode,
+  activeFrom,
+  placeholderUrl,
+  expiresAt,
+  maxClicks,
+  passwordHash,
+  forcePreview,
+  action = "update",
+}: {
+  id: number;
+  workspace: Workspace;
+  url: string;
+  shortCode: string;
+  activeFrom: Date | null;
+  placeholderUrl: string | null;
+  expiresAt: Date | null;
+  maxClicks: number | null;
+  passwordHash?: string | null;
+  forcePreview?: boolean;
+  action?: "update" | "revert";
+}) {
+  assertLinkPermission(workspace, "edit");
+  // Verify the link is in the workspace first
   const [existing] = await db
     .select()
     .from(links)
-    .where(and(eq(links.id, id), eq(links.userId, userId)));
+    .where(and(eq(links.id, id), inWorkspace(workspace), isNull(links.deletedAt)));
   if (!existing) {
     return null;
   }
+  // New limits may expire the link again, which should be reported again
+  const limitsChanged =
+    (expiresAt?.getTime() ?? null) !== (existing.expiresAt?.getTime() ?? null) ||
+    maxClicks !== existing.maxClicks;
+  const update = db
+    .update(links)
+    .set({
+      url,
+      shortCode,
+      activeFrom,
+      placeholderUrl,
+      expiresAt,
+      maxClicks,
+      passwordHash,
+      forcePreview,
+      expiryNotifiedAt: limitsChanged ? null : undefined,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(links.id, id), inWorkspace(workspace), isNull(links.deletedAt)))
+    .returning();
+
+  const before = toLinkSnapshot(existing);
+  const after = toLinkSnapshot({
+    url,
+    shortCode,
+    activeFrom,
+    placeholderUrl,
+    expiresAt,
+    maxClicks,
+    passwordHash: passwordHash === undefined ? existing.passwordHash : passwordHash,
+    forcePreview: forcePreview ?? existing.forcePreview,
+  });
+  if (snapshotsEqual(before, after)) {
+    const [updatedLink] = await update;
+    await invalidateLinkCache([existing]);
+    return updatedLink;
+  }
+  // Batched so the change and its history entry are written together
+  const [[updatedLink]] = await db.batch([
+    update,
+    db.insert(linkHistory).values({ linkId: id, userId: workspace.userId, action, before, after }),
+  ]);
+  // A rename frees the old code and may claim one cached as not found
+  await invalidateLinkCache(updatedLink ? [existing, updatedLink] : [existing]);
+  return updatedLink;
+}
+
+/**
+ * Sets the social preview card shown to link-unfurling crawlers, ensuring the link is in the workspace
+ * @param id - The link's id
+ * @param workspace - The signed-in user's active workspace
+ * @param preview - The Open Graph title, description and image URL; null leaves a tag out
+ * @returns The updated link, or null if not found, not in the workspace or in the trash
+ */
+export async function updateLinkSocialPreview(
+  id: number,
+  workspace: Workspace,
+  preview: Pick<Link, "ogTitle" | "ogDescription" | "ogImageUrl">
+) {
+  assertLinkPermission(workspace, "edit");
+  const [updatedLink] = await db
+    .update(links)
+    .set({ ...preview, updatedAt: new Date() })
+    .where(and(eq(links.id, id), inWorkspace(workspace), isNull(links.deletedAt)))
+    .returning();
+  if (!updatedLink) {
+    return null;
+  }
+  await invalidateLinkCache([updatedLink]);
+  return updatedLink;
+}
+
+/**
+ * Sets the apps mobile visitors are offered before the destination, ensuring the link is in the workspace
+ * @param id - The link's id
+ * @param workspace - The signed-in user's active workspace
+ * @param appLinks - The iOS and Android app and store URLs; a null app URL redirects that platform as usual
+ * @returns The updated link, or null if not found, not in the workspace or in the trash
+ */
+export async function updateLinkAppLinks(id: number, workspace: Workspace, appLinks: AppLinkFields) {
+  assertLinkPermission(workspace, "edit");
   const [updatedLink] = await db
     .update(links)
-    .set({ url, shortCode, updatedAt: new Date() })
-    .where(and(eq(links.id, id), eq(links.userId, userId)))
+    .set({ ...appLinks, updatedAt: new Date() })
+    .where(and(eq(links.id, id), inWorkspace(workspace), isNull(links.deletedAt)))
     .returning();
+  if (!updatedLink) {
+    return null;
+  }
+  await invalidateLinkCache([updatedLink]);
   return updatedLink;
 }
 
 /**
- * Deletes a link by ID, ensuring the user owns the link
+ * Moves a link to the trash, ensuring it belongs to the workspace
  * @param id - The link's id
- * @param userId - The authenticated user's ID
- * @returns true if deleted, false if not found or not owned
+ * @param workspace - The signed-in user's active workspace
+ * @returns The trashed link, or null if not found, not in the workspace or already in the trash
  */
-export async function deleteLinkById(id: number, userId: string): Promise<boolean> {
-  // Check ownership
-  const [existing] = await db
+export async function trashLinkById(id: number, workspace: Workspace): Promise<Link | null> {
+  assertLinkPermission(workspace, "delete");
+  const [trashed] = await db
+    .update(links)
+    // Keep updatedAt as is so restoring puts the link back where it was
+    .set({ deletedAt: new Date(), updatedAt: sql`${links.updatedAt}` })
+    .where(and(eq(links.id, id), inWorkspace(workspace), isNull(links.deletedAt)))
+    .returning();
+  if (!trashed) {
+    return null;
+  }
+  await db.insert(linkHistory).values({
+    linkId: id,
+    userId: workspace.userId,
+    action: "delete",
+    before: toLinkSnapshot(trashed),
+  });
+  await invalidateLinkCache([trashed]);
+  return trashed;
+}
+
+/**
+ * Fetches a workspace's trashed links
+ * @param workspace - The signed-in user's active workspace
+ * @returns Trashed links, most recently deleted first
+ */
+export async function getTrashedLinks(workspace: Workspace) {
+  return await db
     .select()
     .from(links)
-    .where(and(eq(links.id, id), eq(links.userId, userId)));
-  if (!existing) {
+    .where(and(inWorkspace(workspace), isNotNull(links.deletedAt)))
+    .orderBy(desc(links.deletedAt));
+}
+
+/**
+ * Restores a trashed link, ensuring it belongs to the workspace
+ * @param id - The link's id
+ * @param workspace - The signed-in user's active workspace
+ * @returns true if restored, false if not found, not in the workspace or not in the trash
+ */
+export async function restoreLinkById(id: number, workspace: Workspace): Promise<boolean> {
+  assertLinkPermission(workspace, "delete");
+  const [restored] = await db
+    .update(links)
+    .set({ deletedAt: null, updatedAt: sql`${links.updatedAt}` })
+    .where(and(eq(links.id, id), inWorkspace(workspace), isNotNull(links.deletedAt)))
+    .returning();
+  if (!restored) {
+    return false;
+  }
+  await db.insert(linkHistory).values({
+    linkId: id,
+    userId: workspace.userId,
+    action: "restore",
+    after: toLinkSnapshot(restored),
+  });
+  await invalidateLinkCache([restored]);
+  return true;
+}
+
+/**
+ * Permanently deletes a trashed link along with its clicks, ensuring it belongs to the workspace
+ * @param id - The link's id
+ * @param workspace - The signed-in user's active workspace
+ * @returns true if deleted, false if not found, not in the workspace or not in the trash
+ */
+export async function purgeLinkById(id: number, workspace: Workspace): Promise<boolean> {
+  assertLinkPermission(workspace, "delete");
+  const purged = await db
+    .delete(links)
+    .where(and(eq(links.id, id), inWorkspace(workspace), isNotNull(links.deletedAt)))
+    .returning({ id: links.id });
+  if (purged.length === 0) {
     return false;
   }
-  await db.delete(links).where(and(eq(links.id, id), eq(links.userId, userId)));
+  await deleteUnusedTags(workspaceOwnerId(workspace));
   return true;
 }
 
 /**
- * Fetches a link by its short code
+ * Permanently deletes every link that was trashed before a cutoff
+ * @param trashedBefore - Links moved to the trash before this time are purged
+ * @returns The number of purged links
+ */
+export async function purgeTrashedLinks(trashedBefore: Date): Promise<number> {
+  const purged = await db
+    .delete(links)
+    .where(lt(links.deletedAt, trashedBefore))
+    .returning({ userId: links.userId, orgId: links.orgId });
+  for (const ownerId of new Set(purged.map((link) => link.orgId ?? link.userId))) {
+    await deleteUnusedTags(ownerId);
+  }
+  return purged.length;
+}
+
+/**
+ * Fetches a link by its short code on the domain a request arrived on, bypassing the cache;
+ * redirects go through resolveShortLink instead
  * @param shortCode - The short code to look up
+ * @param customDomain - The verified custom domain's hostname, or null for the app's own host
  * @returns The link if found, null otherwise
  */
-export async function getLinkByShortCode(shortCode: string) {
-  const [link] = await db
-    .select()
+export async function getLinkByShortCode(shortCode: string, customDomain: string | null = null) {
+  if (customDomain === null) {
+    const [link] = await db
+      .select()
+      .from(links)
+      .where(and(eq(links.shortCode, shortCode), isNull(links.domainId), isNull(links.deletedAt)));
+    return link || null;
+  }
+  const [row] = await db
+    .select({ link: links })
     .from(links)
-    .where(eq(links.shortCode, shortCode));
+    .innerJoin(customDomains, eq(links.domainId, customDomains.id))
+    .where(
+      and(
+        eq(links.shortCode, shortCode),
+        eq(customDomains.hostname, customDomain),
+        isNotNull(customDomains.verifiedAt),
+        isNull(links.deletedAt)
+      )
+    );
+  return row?.link ?? null;
+}
+
+/**
+ * Re-reads a link in whatever state it's in, including the trash, e.g. after a redirect found it unavailable
+ * @param id - The link's id
+ * @returns The link, or null if it has been purged
+ */
+export async function getLinkById(id: number) {
+  const [link] = await db.select().from(links).where(eq(links.id, id));
   return link || null;
-}
\ No newline at end of file
+}
+
+/**
+ * Atomically counts a redirect against a link's limits. The returned row is also the freshest copy
+ * of the link, so a redirect served from the cache can tell from its updatedAt whether it was stale.
+ * @param id - The link's id
+ * @returns The updated link, or null if the link is trashed, has expired or hit its click limit
+ */
+export async function incrementLinkClickCount(id: number) {
+  // The limit checks live in the WHERE clause so concurrent redirects can't overshoot
+  const [link] = await db
+    .update(links)
+    // Keep updatedAt as is so redirects don't count as edits
+    .set({ clickCount: sql`${links.clickCount} + 1`, updatedAt: sql`${links.updatedAt}` })
+    .where(
+      and(
+        eq(links.id, id),
+        isNull(links.deletedAt),
+        or(isNull(links.expiresAt), gt(links.expiresAt, sql`now()`)),
+        or(isNull(links.maxClicks), lt(links.clickCount, links.maxClicks))
+      )
+    )
+    .returning();
+  // The cached click count only matters once the allowance runs out
+  if (link && link.maxClicks !== null && link.clickCount >= link.maxClicks) {
+    await invalidateLinkCache([link]);
+  }
+  return link || null;
+}
+
+/**
+ * Takes back a counted redirect that was served from an out-of-date copy of the link
+ * @param id - The link's id
+ */
+export async function uncountLinkClick(id: number) {
+  await db
+    .update(links)
+    .set({ clickCount: sql`greatest(${links.clickCount} - 1, 0)`, updatedAt: sql`${links.updatedAt}` })
+    .where(eq(links.id, id));
+}
+
+/**
+ * Marks a link's expiry as reported, so only the first caller sends the link.expired webhook
+ * @param id - The link's id
+ * @returns true if this call claimed the notification, false if it was already claimed or the
+ * link isn't actually expired, e.g. it was read from a stale cache entry
+ */
+export async function claimLinkExpiryNotification(id: number): Promise<boolean> {
+  const claimed = await db
+    .update(links)
+    .set({ expiryNotifiedAt: new Date(), updatedAt: sql`${links.updatedAt}` })
+    .where(
+      and(
+        eq(links.id, id),
+        isNull(links.expiryNotifiedAt),
+        isNull(links.deletedAt),
+        or(lte(links.expiresAt, sql`now()`), gte(links.clickCount, links.maxClicks))
+      )
+    )
+    .returning({ id: links.id });
+  return claimed.length > 0;
+}
+
+/**
+ * Claims the expiry notifications of links that expired without being visited since
+ * @param limit - Maximum number of links to claim
+ * @returns The claimed links, whose link.expired webhooks are now due
+ */
+export async function claimExpiredLinkNotifications(limit: number) {
+  const unreported = db
+    .select({ id: links.id })
+    .from(links)
+    .where(
+      and(
+        isNull(links.expiryNotifiedAt),
+        isNull(links.deletedAt),
+        or(lte(links.expiresAt, sql`now()`), gte(links.clickCount, links.maxClicks))
+      )
+    )
+    .limit(limit);
+  return await db
+    .update(links)
+    .set({ expiryNotifiedAt: new Date(), updatedAt: sql`${links.updatedAt}` })
+    .where(and(inArray(links.id, unreported), isNull(links.expiryNotifiedAt)))
+    .returning();
+}
+
+/**
+ * Counts a failed password attempt, locking the link once the limit is reached
+ * @param id - The link's id
+ * @returns The updated link
+ */
+export async function recordFailedUnlockAttempt(id: number) {
+  const attempts = sql`${links.failedUnlockAttempts} + 1`;
+  const [link] = await db
+    .update(links)
+    .set({
+      failedUnlockAttempts: sql`case when ${attempts} >= ${MAX_UNLOCK_ATTEMPTS} then 0 else ${attempts} end`,
+      unlockLockedUntil: sql`case when ${attempts} >= ${MAX_UNLOCK_ATTEMPTS} then now() + make_interval(mins => ${UNLOCK_LOCKOUT_MINUTES}) else ${links.unlockLockedUntil} end`,
+      updatedAt: sql`${links.updatedAt}`,
+    })
+    .where(eq(links.id, id))
+    .returning();
+  // The unlock form must see a lockout straight away
+  if (link) {
+    await invalidateLinkCache([link]);
+  }
+  return link;
+}
+
+/**
+ * Clears the failed password attempt counter after a successful unlock
+ * @param id - The link's id
+ */
+export async function resetFailedUnlockAttempts(id: number) {
+  const reset = await db
+    .update(links)
+    .set({ failedUnlockAttempts: 0, unlockLockedUntil: null, updatedAt: sql`${links.updatedAt}` })
+    .where(and(eq(links.id, id), gt(links.failedUnlockAttempts, 0)))
+    .returning({ shortCode: links.shortCode, domainId: links.domainId });
+  await invalidateLinkCache(reset);
+}
+
+/**
+ * Records a single click event for a link
+ * @param data - The click data to insert
+ * @returns The newly created click
+ */
+export async function insertClick(data: NewClick) {
+  const [newClick] = await db.insert(clicks).values(data).returning();
+  return newClick;
+}
+
+/**
+ * Counts the clicks recorded for a link
+ * @param linkId - The link's id
+ * @returns Total number of clicks
+ */
+export async function getLinkClickCount(linkId: number): Promise<number> {
+  const [result] = await db
+    .select({ value: count() })
+    .from(clicks)
+    .where(eq(clicks.linkId, linkId));
+  return result?.value ?? 0;
+}
+
+/**
+ * Fetches click events for a link, newest first
+ * @param linkId - The link's id
+ * @param from - Optional start of the time range (inclusive)
+ * @param to - Optional end of the time range (inclusive)
+ * @param limit - Maximum number of events to return
+ * @returns Array of clicks for the link
+ */
+export async function getLinkClicks({
+  linkId,
+  from,
+  to,
+  limit = 100,
+}: {
+  linkId: number;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}) {
+  return await db
+    .select()
+    .from(clicks)
+    .where(
+      and(
+        eq(clicks.linkId, linkId),
+        from ? gte(clicks.clickedAt, from) : undefined,
+        to ? lte(clicks.clickedAt, to) : undefined
+      )
+    )
+    .orderBy(desc(clicks.clickedAt))
+    .limit(limit);
+}
@@ -0,0 +1,69 @@
+import { db } from "@/db";
+import { links, redirectRules, type RedirectRule } from "@/db/schema";
+import { asc, eq, inArray } from "drizzle-orm";
+import { invalidateLinkCache } from "@/data/links";
+
+export type RedirectRuleValues = Pick<RedirectRule, "device" | "os" | "language" | "url">;
+
+/**
+ * Fetches a link's redirect rules
+ * @param linkId - The link's id
+ * @returns Rules in evaluation order
+ */
+export async function getRedirectRules(linkId: number) {
+  return await db
+    .select()
+    .from(redirectRules)
+    .where(eq(redirectRules.linkId, linkId))
+    .orderBy(asc(redirectRules.position));
+}
+
+/**
+ * Fetches the redirect rules of each of the given links
+ * @param linkIds - The links' ids
+ * @returns Map from link id to its rules, in evaluation order
+ */
+export async function getRedirectRulesForLinks(
+  linkIds: number[]
+): Promise<Map<number, RedirectRuleValues[]>> {
+  const rulesByLink = new Map<number, RedirectRuleValues[]>();
+  if (linkIds.length === 0) {
+    return rulesByLink;
+  }
+
+  const rows = await db
+    .select()
+    .from(redirectRules)
+    .where(inArray(redirectRules.linkId, linkIds))
+    .orderBy(asc(redirectRules.linkId), asc(redirectRules.position));
+
+  for (const { linkId, device, os, language, url } of rows) {
+    rulesByLink.set(linkId, [...(rulesByLink.get(linkId) ?? []), { device, os, language, url }]);
+  }
+  return rulesByLink;
+}
+
+/**
+ * Replaces a link's redirect rules
+ * @param linkId - The link's id; the caller must have checked ownership
+ * @param rules - The complete list of rules, in evaluation order
+ */
+export async function setRedirectRules(linkId: number, rules: RedirectRuleValues[]) {
+  // Batched so visitors never see a partial list of rules. Bumping updatedAt marks cached copies stale.
+  const [updatedLinks] = await db.batch([
+    db
+      .update(links)
+      .set({ updatedAt: new Date() })
+      .where(eq(links.id, linkId))
+      .returning({ shortCode: links.shortCode, domainId: links.domainId }),
+    db.delete(redirectRules).where(eq(redirectRules.linkId, linkId)),
+    ...(rules.length > 0
+      ? [
+          db.insert(redirectRules).values(
+            rules.map((rule, position) => ({ ...rule, linkId, position }))
+          ),
+        ]
+      : []),
+  ]);
+  await invalidateLinkCache(updatedLinks);
+}
@@ -0,0 +1,34 @@
+import { getLinkByShortCode } from "@/data/links";
+import { getLinkVariants } from "@/data/link-variants";
+import { getRedirectRules } from "@/data/redirect-rules";
+import { cacheShortLink, getCachedShortLink, type CachedShortLink } from "@/lib/link-cache";
+
+/**
+ * Resolves a short code with everything a redirect needs, from the cache when possible.
+ * Cache hits aren't checked against the database here; redirects compare the cached link with the
+ * row their click count update returns (see redirectToLink), so a hit costs no extra query.
+ * @param shortCode - The short code to look up
+ * @param customDomain - The verified custom domain's hostname, or null for the app's own host
+ * @param options - Set fresh to skip the cache, e.g. when lockout state must be current
+ * @returns The link with its redirect rules and variants, or null if the code doesn't resolve
+ */
+export async function resolveShortLink(
+  shortCode: string,
+  customDomain: string | null,
+  { fresh = false }: { fresh?: boolean } = {}
+): Promise<CachedShortLink | null> {
+  const cached = fresh ? undefined : await getCachedShortLink(shortCode, customDomain);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const link = await getLinkByShortCode(shortCode, customDomain);
+  if (!link) {
+    await cacheShortLink(shortCode, customDomain, null);
+    return null;
+  }
+  const [rules, variants] = await Promise.all([getRedirectRules(link.id), getLinkVariants(link.id)]);
+  const resolved = { link, rules, variants };
+  await cacheShortLink(shortCode, customDomain, resolved);
+  return resolved;
+}
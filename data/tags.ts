@@ -0,0 +1,91 @@
+import { db } from "@/db";
+import { linkTags, tags } from "@/db/schema";
+import { and, asc, eq, inArray, notExists } from "drizzle-orm";
+
+/**
+ * Fetches all tags for a specific user or organization
+ * @param ownerId - The tag owner's ID; see workspaceOwnerId
+ * @returns Array of tags ordered by name
+ */
+export async function getUserTags(ownerId: string) {
+  return await db
+    .select()
+    .from(tags)
+    .where(eq(tags.userId, ownerId))
+    .orderBy(asc(tags.name));
+}
+
+/**
+ * Fetches the tag names attached to each of the given links
+ * @param linkIds - The links' ids
+ * @returns Map from link id to its tag names, ordered by name
+ */
+export async function getTagsForLinks(linkIds: number[]): Promise<Map<number, string[]>> {
+  const tagsByLink = new Map<number, string[]>();
+  if (linkIds.length === 0) {
+    return tagsByLink;
+  }
+
+  const rows = await db
+    .select({ linkId: linkTags.linkId, name: tags.name })
+    .from(linkTags)
+    .innerJoin(tags, eq(linkTags.tagId, tags.id))
+    .where(inArray(linkTags.linkId, linkIds))
+    .orderBy(asc(tags.name));
+
+  for (const row of rows) {
+    tagsByLink.set(row.linkId, [...(tagsByLink.get(row.linkId) ?? []), row.name]);
+  }
+  return tagsByLink;
+}
+
+/**
+ * Replaces a link's tags, creating any tags the owner doesn't have yet
+ * @param linkId - The link's id; the caller must have checked ownership
+ * @param ownerId - The tag owner's ID; see workspaceOwnerId
+ * @param names - The complete set of tag names for the link
+ */
+export async function setLinkTags(linkId: number, ownerId: string, names: string[]) {
+  let tagIds: number[] = [];
+  if (names.length > 0) {
+    await db
+      .insert(tags)
+      .values(names.map((name) => ({ userId: ownerId, name })))
+      .onConflictDoNothing({ target: [tags.userId, tags.name] });
+    const userTags = await db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(and(eq(tags.userId, ownerId), inArray(tags.name, names)));
+    tagIds = userTags.map((tag) => tag.id);
+  }
+
+  // Batched so the link is never left with a partial set of tags
+  const replaceTags = db.delete(linkTags).where(eq(linkTags.linkId, linkId));
+  if (tagIds.length > 0) {
+    await db.batch([
+      replaceTags,
+      db.insert(linkTags).values(tagIds.map((tagId) => ({ linkId, tagId }))),
+    ]);
+  } else {
+    await replaceTags;
+  }
+
+  await deleteUnusedTags(ownerId);
+}
+
+/**
+ * Removes a user's or organization's tags that are no longer attached to any link
+ * @param ownerId - The tag owner's ID
+ */
+export async function deleteUnusedTags(ownerId: string) {
+  await db
+    .delete(tags)
+    .where(
+      and(
+        eq(tags.userId, ownerId),
+        notExists(
+          db.select().from(linkTags).where(eq(linkTags.tagId, tags.id))
+        )
+      )
+    );
+}
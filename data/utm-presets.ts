@@ -0,0 +1,54 @@
+import { db } from "@/db";
+import { utmPresets, type NewUtmPreset } from "@/db/schema";
+import { and, asc, eq } from "drizzle-orm";
+
+/**
+ * Fetches all UTM presets for a specific user
+ * @param userId - The authenticated user's ID from Clerk
+ * @returns Array of presets ordered by name
+ */
+export async function getUserUtmPresets(userId: string) {
+  return await db
+    .select()
+    .from(utmPresets)
+    .where(eq(utmPresets.userId, userId))
+    .orderBy(asc(utmPresets.name));
+}
+
+/**
+ * Saves a UTM preset, replacing the user's existing preset with the same name
+ * @param data - The preset data
+ * @returns The saved preset
+ */
+export async function upsertUtmPreset(data: NewUtmPreset) {
+  const [preset] = await db
+    .insert(utmPresets)
+    .values(data)
+    .onConflictDoUpdate({
+      target: [utmPresets.userId, utmPresets.name],
+      set: {
+        source: data.source ?? null,
+        medium: data.medium ?? null,
+        campaign: data.campaign ?? null,
+        term: data.term ?? null,
+        content: data.content ?? null,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  return preset;
+}
+
+/**
+ * Deletes a UTM preset, ensuring the user owns it
+ * @param id - The preset's id
+ * @param userId - The authenticated user's ID
+ * @returns true if deleted, false if not found or not owned
+ */
+export async function deleteUtmPreset(id: number, userId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(utmPresets)
+    .where(and(eq(utmPresets.id, id), eq(utmPresets.userId, userId)))
+    .returning({ id: utmPresets.id });
+  return deleted.length > 0;
+}
@@ -0,0 +1,266 @@
+import { db } from "@/db";
+import {
+  webhookDeliveries,
+  webhookEndpoints,
+  type NewWebhookEndpoint,
+  type WebhookDelivery,
+  type WebhookEventType,
+} from "@/db/schema";
+import { and, asc, desc, eq, inArray, lte, sql } from "drizzle-orm";
+import { assertLinkPermission, workspaceOwnerId, type Workspace } from "@/lib/workspaces";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  buildWebhookPayload,
+  getWebhookRetryDelayMs,
+  sendWebhook,
+  type WebhookAttemptResult,
+  type WebhookPayload,
+} from "@/lib/webhooks";
+
+// Claimed deliveries are hidden from other workers for this long, in case an attempt never finishes
+const DELIVERY_LEASE_SECONDS = 60;
+const DEFAULT_DELIVERY_BATCH_SIZE = 50;
+
+/**
+ * Fetches all webhook endpoints of a workspace
+ * @param ownerId - The workspace owner's ID; see workspaceOwnerId
+ * @returns Array of endpoints, newest first
+ */
+export async function getUserWebhookEndpoints(ownerId: string) {
+  return await db
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.userId, ownerId))
+    .orderBy(desc(webhookEndpoints.createdAt));
+}
+
+/**
+ * Adds a webhook endpoint that receives the workspace's link events
+ * @param data - The endpoint data, including its generated secret
+ * @param workspace - The signed-in user's active workspace
+ * @returns The newly created endpoint
+ */
+export async function insertWebhookEndpoint(data: Omit<NewWebhookEndpoint, "userId">, workspace: Workspace) {
+  assertLinkPermission(workspace, "manageWebhooks");
+  const [endpoint] = await db
+    .insert(webhookEndpoints)
+    .values({ ...data, userId: workspaceOwnerId(workspace) })
+    .returning();
+  return endpoint;
+}
+
+/**
+ * Deletes a webhook endpoint and its delivery log, ensuring it belongs to the workspace
+ * @param id - The endpoint's id
+ * @param workspace - The signed-in user's active workspace
+ * @returns true if deleted, false if not found in the workspace
+ */
+export async function deleteWebhookEndpoint(id: number, workspace: Workspace): Promise<boolean> {
+  assertLinkPermission(workspace, "manageWebhooks");
+  const deleted = await db
+    .delete(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, workspaceOwnerId(workspace))))
+    .returning({ id: webhookEndpoints.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Fetches a workspace's most recent webhook deliveries across all of its endpoints
+ * @param ownerId - The workspace owner's ID; see workspaceOwnerId
+ * @param limit - Maximum number of deliveries to return
+ * @returns Deliveries with their endpoint's URL, newest first
+ */
+export async function getUserWebhookDeliveries(ownerId: string, limit = 50) {
+  return await db
+    .select({
+      id: webhookDeliveries.id,
+      endpointId: webhookDeliveries.endpointId,
+      endpointUrl: webhookEndpoints.url,
+      event: webhookDeliveries.event,
+      status: webhookDeliveries.status,
+      attempts: webhookDeliveries.attempts,
+      nextAttemptAt: webhookDeliveries.nextAttemptAt,
+      responseStatus: webhookDeliveries.responseStatus,
+      error: webhookDeliveries.error,
+      lastAttemptAt: webhookDeliveries.lastAttemptAt,
+      createdAt: webhookDeliveries.createdAt,
+    })
+    .from(webhookDeliveries)
+    .innerJoin(webhookEndpoints, eq(webhookDeliveries.endpointId, webhookEndpoints.id))
+    .where(eq(webhookEndpoints.userId, ownerId))
+    .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+    .limit(limit);
+}
+
+/**
+ * Queues an event for every one of a workspace's endpoints that subscribes to it
+ * @param ownerId - The workspace the event's link belongs to; see linkOwnerId
+ * @param event - The event type
+ * @param data - The event's data
+ * @returns The ids of the queued deliveries
+ */
+export async function queueWebhookEvent(
+  ownerId: string,
+  event: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<number[]> {
+  const endpoints = await db
+    .select({ id: webhookEndpoints.id })
+    .from(webhookEndpoints)
+    .where(
+      and(
+        eq(webhookEndpoints.userId, ownerId),
+        sql`${webhookEndpoints.events} @> ${JSON.stringify([event])}::jsonb`
+      )
+    );
+  if (endpoints.length === 0) {
+    return [];
+  }
+  const payload = buildWebhookPayload(event, data);
+  const queued = await db
+    .insert(webhookDeliveries)
+    .values(endpoints.map((endpoint) => ({ endpointId: endpoint.id, event, payload })))
+    .returning({ id: webhookDeliveries.id });
+  return queued.map((delivery) => delivery.id);
+}
+
+/**
+ * Queues a test event for one endpoint, whatever it subscribes to
+ * @param endpointId - The endpoint's id
+ * @param workspace - The signed-in user's active workspace
+ * @returns The queued delivery's id, or null if the endpoint wasn't found in the workspace
+ */
+export async function queueTestWebhook(endpointId: number, workspace: Workspace): Promise<number | null> {
+  assertLinkPermission(workspace, "manageWebhooks");
+  const [endpoint] = await db
+    .select({ id: webhookEndpoints.id })
+    .from(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, endpointId), eq(webhookEndpoints.userId, workspaceOwnerId(workspace))));
+  if (!endpoint) {
+    return null;
+  }
+  const payload = buildWebhookPayload("webhook.test", {
+    message: "This is a test event sent from your webhook settings.",
+  });
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({ endpointId: endpoint.id, event: "webhook.test", payload })
+    .returning({ id: webhookDeliveries.id });
+  return delivery.id;
+}
+
+/**
+ * Claims pending deliveries that are due by pushing their next attempt back by the lease,
+ * so concurrent workers never send the same delivery twice at once
+ * @param ids - Only claim these deliveries, or undefined for any that are due
+ * @param limit - Maximum number of deliveries to claim
+ * @returns The claimed deliveries
+ */
+async function claimWebhookDeliveries(ids: number[] | undefined, limit: number) {
+  const due = db
+    .select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, sql`now()`),
+        ids ? inArray(webhookDeliveries.id, ids) : undefined
+      )
+    )
+    .orderBy(asc(webhookDeliveries.nextAttemptAt))
+    .limit(limit)
+    .for("update", { skipLocked: true });
+  return await db
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: sql`now() + make_interval(secs => ${DELIVERY_LEASE_SECONDS})` })
+    .where(inArray(webhookDeliveries.id, due))
+    .returning();
+}
+
+/**
+ * Stores the outcome of a delivery attempt, scheduling a retry with backoff if it failed
+ * @param delivery - The claimed delivery
+ * @param result - What the endpoint answered
+ * @returns The updated delivery
+ */
+async function recordWebhookAttempt(delivery: WebhookDelivery, result: WebhookAttemptResult) {
+  const attempts = delivery.attempts + 1;
+  const status = result.ok ? "succeeded" : attempts >= MAX_WEBHOOK_ATTEMPTS ? "failed" : "pending";
+  const [updated] = await db
+    .update(webhookDeliveries)
+    .set({
+      status,
+      attempts,
+      responseStatus: result.responseStatus,
+      error: result.error,
+      lastAttemptAt: new Date(),
+      nextAttemptAt:
+        status === "pending" ? new Date(Date.now() + getWebhookRetryDelayMs(attempts)) : undefined,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Sends pending deliveries that are due, one attempt each
+ * @param ids - Only send these deliveries, or undefined for any that are due
+ * @param limit - Maximum number of deliveries to send
+ * @returns The deliveries after their attempt
+ */
+export async function processWebhookDeliveries({
+  ids,
+  limit = DEFAULT_DELIVERY_BATCH_SIZE,
+}: {
+  ids?: number[];
+  limit?: number;
+} = {}): Promise<WebhookDelivery[]> {
+  if (ids?.length === 0) {
+    return [];
+  }
+  const claimed = await claimWebhookDeliveries(ids, limit);
+  if (claimed.length === 0) {
+    return [];
+  }
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(inArray(webhookEndpoints.id, [...new Set(claimed.map((delivery) => delivery.endpointId))]));
+  const endpointsById = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint]));
+
+  return await Promise.all(
+    claimed.map(async (delivery) => {
+      // Deleting an endpoint cascades to its deliveries, so it can only vanish mid-batch
+      const endpoint = endpointsById.get(delivery.endpointId);
+      const result = endpoint
+        ? await sendWebhook({
+            url: endpoint.url,
+            secret: endpoint.secret,
+            deliveryId: delivery.id,
+            payload: delivery.payload as WebhookPayload,
+          })
+        : { ok: false, responseStatus: null, error: "Endpoint was deleted" };
+      return (await recordWebhookAttempt(delivery, result)) ?? delivery;
+    })
+  );
+}
+
+/**
+ * Queues an event and makes the first delivery attempt straight away; failures are left
+ * for the retry job. Meant to run inside after() so it never delays a response.
+ * @param ownerId - The workspace the event's link belongs to; see linkOwnerId
+ * @param event - The event type
+ * @param data - The event's data
+ */
+export async function dispatchWebhookEvent(
+  ownerId: string,
+  event: WebhookEventType,
+  data: Record<string, unknown>
+) {
+  try {
+    const ids = await queueWebhookEvent(ownerId, event, data);
+    await processWebhookDeliveries({ ids });
+  } catch (error) {
+    console.error(`Failed to dispatch ${event} webhook:`, error);
+  }
+}
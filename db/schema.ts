@@ -1,10 +1,43 @@
-import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, index, primaryKey, unique, uniqueIndex } from "drizzle-orm/pg-core";
 
 export const links = pgTable("links", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  // The creator; for organization links, access is decided by orgId and the member's role instead
   userId: text("user_id").notNull(),
-  shortCode: varchar("short_code", { length: 20 }).notNull().unique(),
+  // Set for links shared with a Clerk organization
+  orgId: text("org_id"),
+  // Null for links on the app's own host; short codes are unique per domain
+  domainId: integer("domain_id").references(() => customDomains.id, { onDelete: "restrict" }),
+  shortCode: varchar("short_code", { length: 20 }).notNull(),
   url: text("url").notNull(),
+  // Scheduled links show a coming soon page, or redirect to placeholderUrl, until this time
+  activeFrom: timestamp("active_from", { withTimezone: true, mode: "date" }),
+  placeholderUrl: text("placeholder_url"),
+  expiresAt: timestamp("expires_at", { withTimezone: true, mode: "date" }),
+  maxClicks: integer("max_clicks"),
+  clickCount: integer("click_count").default(0).notNull(),
+  passwordHash: text("password_hash"),
+  failedUnlockAttempts: integer("failed_unlock_attempts").default(0).notNull(),
+  unlockLockedUntil: timestamp("unlock_locked_until", { withTimezone: true, mode: "date" }),
+  // Keep returning visitors on the same split-test variant via a cookie
+  stickyVariants: boolean("sticky_variants").default(false).notNull(),
+  // Show the preview interstitial instead of redirecting straight away
+  forcePreview: boolean("force_preview").default(false).notNull(),
+  // Open Graph / Twitter card shown to link-unfurling crawlers instead of redirecting them
+  ogTitle: text("og_title"),
+  ogDescription: text("og_description"),
+  ogImageUrl: text("og_image_url"),
+  // Mobile visitors get a launcher page that opens the app (a custom scheme or universal link),
+  // falling back to the store listing, or the web destination when there's no store URL
+  iosAppUrl: text("ios_app_url"),
+  iosStoreUrl: text("ios_store_url"),
+  androidAppUrl: text("android_app_url"),
+  androidStoreUrl: text("android_store_url"),
+  // Set when the link is moved to the trash; its short code stays reserved until it's purged
+  deletedAt: timestamp("deleted_at", { withTimezone: true, mode: "date" }),
+  // Set once the link.expired webhook has been queued, so each expiry is only reported once
+  expiryNotifiedAt: timestamp("expiry_notified_at", { withTimezone: true, mode: "date" }),
   createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
     .defaultNow()
     .notNull(),
@@ -12,7 +45,283 @@ export const links = pgTable("links", {
     .defaultNow()
     .notNull()
     .$onUpdate(() => new Date()),
+}, (table) => [
+  index("links_org_id_idx").on(table.orgId),
+  // NULLS NOT DISTINCT so codes on the app's own host stay unique too
+  unique("links_domain_id_short_code_unique").on(table.domainId, table.shortCode).nullsNotDistinct(),
+]);
+
+export const tags = pgTable(
+  "tags",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    // The owning user, or the organization ID for tags shared by an organization's links
+    userId: text("user_id").notNull(),
+    name: varchar("name", { length: 32 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [unique("tags_user_id_name_unique").on(table.userId, table.name)]
+);
+
+export const linkTags = pgTable(
+  "link_tags",
+  {
+    linkId: integer("link_id")
+      .notNull()
+      .references(() => links.id, { onDelete: "cascade" }),
+    tagId: integer("tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.linkId, table.tagId] }),
+    index("link_tags_tag_id_idx").on(table.tagId),
+  ]
+);
+
+export const redirectRules = pgTable(
+  "redirect_rules",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    linkId: integer("link_id")
+      .notNull()
+      .references(() => links.id, { onDelete: "cascade" }),
+    // Rules are evaluated in ascending position, the first match wins
+    position: integer("position").notNull(),
+    // Null conditions match any visitor
+    device: varchar("device", { length: 16 }),
+    os: varchar("os", { length: 32 }),
+    language: varchar("language", { length: 35 }),
+    url: text("url").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("redirect_rules_link_id_position_idx").on(table.linkId, table.position)]
+);
+
+export const linkVariants = pgTable(
+  "link_variants",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    linkId: integer("link_id")
+      .notNull()
+      .references(() => links.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    // Percentage of visitors sent to this variant; a link's weights add up to 100
+    weight: integer("weight").notNull(),
+    position: integer("position").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("link_variants_link_id_idx").on(table.linkId)]
+);
+
+export const utmPresets = pgTable(
+  "utm_presets",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    userId: text("user_id").notNull(),
+    name: varchar("name", { length: 50 }).notNull(),
+    source: text("source"),
+    medium: text("medium"),
+    campaign: text("campaign"),
+    term: text("term"),
+    content: text("content"),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [unique("utm_presets_user_id_name_unique").on(table.userId, table.name)]
+);
+
+export const clicks = pgTable(
+  "clicks",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    linkId: integer("link_id")
+      .notNull()
+      .references(() => links.id, { onDelete: "cascade" }),
+    clickedAt: timestamp("clicked_at", { withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    referrer: text("referrer"),
+    userAgent: text("user_agent"),
+    acceptLanguage: text("accept_language"),
+    // HMAC-SHA256 of the visitor IP keyed with IP_HASH_SALT, never the raw address; null without the key
+    ipHash: varchar("ip_hash", { length: 64 }),
+    // The split-test variant the visitor was sent to, if any
+    variantId: integer("variant_id").references(() => linkVariants.id, { onDelete: "set null" }),
+  },
+  (table) => [index("clicks_link_id_clicked_at_idx").on(table.linkId, table.clickedAt)]
+);
+
+export const apiKeys = pgTable("api_keys", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: text("user_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  // First characters of the key, shown so users can tell keys apart
+  prefix: varchar("prefix", { length: 16 }).notNull(),
+  // SHA-256 of the full key, the key itself is only shown once at creation
+  keyHash: varchar("key_hash", { length: 64 }).notNull().unique(),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true, mode: "date" }),
+  revokedAt: timestamp("revoked_at", { withTimezone: true, mode: "date" }),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+    .defaultNow()
+    .notNull(),
+});
+
+export type WebhookEventType =
+  | "link.created"
+  | "link.updated"
+  | "link.deleted"
+  | "link.clicked"
+  | "link.expired"
+  | "webhook.test";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  // The owning user, or the organization ID for endpoints receiving an organization's link events
+  userId: text("user_id").notNull(),
+  url: text("url").notNull(),
+  // Signs payloads with HMAC-SHA256; kept in plain text because signing needs it
+  secret: text("secret").notNull(),
+  // The event types this endpoint is subscribed to
+  events: jsonb("events").$type<WebhookEventType[]>().notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+    .defaultNow()
+    .notNull(),
 });
 
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    endpointId: integer("endpoint_id")
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+    event: varchar("event", { length: 32 }).$type<WebhookEventType>().notNull(),
+    payload: jsonb("payload").notNull(),
+    status: varchar("status", { length: 16 }).$type<WebhookDeliveryStatus>().default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    // When a pending delivery is next due; also pushed forward while an attempt is in flight
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    // From the most recent attempt
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true, mode: "date" }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("webhook_deliveries_status_next_attempt_at_idx").on(table.status, table.nextAttemptAt),
+    index("webhook_deliveries_endpoint_id_created_at_idx").on(table.endpointId, table.createdAt),
+  ]
+);
+
+// The editable fields of a link as stored in its history; dates are ISO strings inside jsonb
+export interface LinkSnapshot {
+  url: string;
+  shortCode: string;
+  // Missing from entries recorded before scheduling existed
+  activeFrom?: string | null;
+  placeholderUrl?: string | null;
+  expiresAt: string | null;
+  maxClicks: number | null;
+  hasPassword: boolean;
+  forcePreview: boolean;
+}
+
+export type LinkHistoryAction = "create" | "update" | "revert" | "delete" | "restore";
+
+export const linkHistory = pgTable(
+  "link_history",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    linkId: integer("link_id")
+      .notNull()
+      .references(() => links.id, { onDelete: "cascade" }),
+    // The user who made the change
+    userId: text("user_id").notNull(),
+    action: varchar("action", { length: 16 }).$type<LinkHistoryAction>().notNull(),
+    // Null before a create and after a delete
+    before: jsonb("before").$type<LinkSnapshot>(),
+    after: jsonb("after").$type<LinkSnapshot>(),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("link_history_link_id_created_at_idx").on(table.linkId, table.createdAt)]
+);
+
+export const blockedDomains = pgTable("blocked_domains", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  // Lowercase hostname; subdomains are blocked too
+  domain: varchar("domain", { length: 253 }).notNull().unique(),
+  reason: text("reason"),
+  // The admin who added the entry
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+    .defaultNow()
+    .notNull(),
+});
+
+export const customDomains = pgTable("custom_domains", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  // Lowercase hostname, e.g. "go.example.com"
+  hostname: varchar("hostname", { length: 253 }).notNull(),
+  // Who added the domain; organization domains are shared like organization links
+  userId: text("user_id").notNull(),
+  orgId: text("org_id"),
+  // Published in a DNS TXT record to prove ownership
+  verificationToken: text("verification_token").notNull(),
+  verifiedAt: timestamp("verified_at", { withTimezone: true, mode: "date" }),
+  // Served from /.well-known so the owner's apps can claim the domain's links as universal / app links
+  appleAppSiteAssociation: jsonb("apple_app_site_association").$type<Record<string, unknown>>(),
+  androidAssetLinks: jsonb("android_asset_links").$type<unknown[]>(),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "date" })
+    .defaultNow()
+    .notNull(),
+}, (table) => [
+  // Anyone may add a hostname, but only one workspace can prove it owns it
+  uniqueIndex("custom_domains_verified_hostname_unique")
+    .on(table.hostname)
+    .where(sql`${table.verifiedAt} is not null`),
+]);
+
 export type Link = typeof links.$inferSelect;
 export type NewLink = typeof links.$inferInsert;
+export type Click = typeof clicks.$inferSelect;
+export type NewClick = typeof clicks.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
+export type RedirectRule = typeof redirectRules.$inferSelect;
+export type NewRedirectRule = typeof redirectRules.$inferInsert;
+export type LinkVariant = typeof linkVariants.$inferSelect;
+export type NewLinkVariant = typeof linkVariants.$inferInsert;
+export type UtmPreset = typeof utmPresets.$inferSelect;
+export type NewUtmPreset = typeof utmPresets.$inferInsert;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+export type LinkHistoryEntry = typeof linkHistory.$inferSelect;
+export type NewLinkHistoryEntry = typeof linkHistory.$inferInsert;
+export type BlockedDomain = typeof blockedDomains.$inferSelect;
+export type NewBlockedDomain = typeof blockedDomains.$inferInsert;
+export type CustomDomain = typeof customDomains.$inferSelect;
+export type NewCustomDomain = typeof customDomains.$inferInsert;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
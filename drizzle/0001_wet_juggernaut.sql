@@ -0,0 +1,12 @@
+CREATE TABLE "clicks" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "clicks_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"link_id" integer NOT NULL,
+	"clicked_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"referrer" text,
+	"user_agent" text,
+	"accept_language" text,
+	"ip_hash" varchar(64)
+);
+--> statement-breakpoint
+ALTER TABLE "clicks" ADD CONSTRAINT "clicks_link_id_links_id_fk" FOREIGN KEY ("link_id") REFERENCES "public"."links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "clicks_link_id_clicked_at_idx" ON "clicks" USING btree ("link_id","clicked_at");
\ No newline at end of file
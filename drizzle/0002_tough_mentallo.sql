@@ -0,0 +1,3 @@
+ALTER TABLE "links" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "max_clicks" integer;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "click_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
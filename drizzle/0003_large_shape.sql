@@ -0,0 +1,3 @@
+ALTER TABLE "links" ADD COLUMN "password_hash" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "failed_unlock_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "unlock_locked_until" timestamp with time zone;
\ No newline at end of file
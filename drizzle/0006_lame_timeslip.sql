@@ -0,0 +1,13 @@
+CREATE TABLE "utm_presets" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "utm_presets_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_id" text NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"source" text,
+	"medium" text,
+	"campaign" text,
+	"term" text,
+	"content" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "utm_presets_user_id_name_unique" UNIQUE("user_id","name")
+);
@@ -0,0 +1,13 @@
+CREATE TABLE "redirect_rules" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "redirect_rules_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"link_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"device" varchar(16),
+	"os" varchar(32),
+	"language" varchar(35),
+	"url" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "redirect_rules" ADD CONSTRAINT "redirect_rules_link_id_links_id_fk" FOREIGN KEY ("link_id") REFERENCES "public"."links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "redirect_rules_link_id_position_idx" ON "redirect_rules" USING btree ("link_id","position");
\ No newline at end of file
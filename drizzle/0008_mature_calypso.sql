@@ -0,0 +1,14 @@
+CREATE TABLE "link_variants" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "link_variants_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"link_id" integer NOT NULL,
+	"url" text NOT NULL,
+	"weight" integer NOT NULL,
+	"position" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "clicks" ADD COLUMN "variant_id" integer;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "sticky_variants" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "link_variants" ADD CONSTRAINT "link_variants_link_id_links_id_fk" FOREIGN KEY ("link_id") REFERENCES "public"."links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "link_variants_link_id_idx" ON "link_variants" USING btree ("link_id");--> statement-breakpoint
+ALTER TABLE "clicks" ADD CONSTRAINT "clicks_variant_id_link_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "public"."link_variants"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
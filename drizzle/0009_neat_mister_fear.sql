@@ -0,0 +1 @@
+ALTER TABLE "links" ADD COLUMN "force_preview" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "blocked_domains" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "blocked_domains_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"domain" varchar(253) NOT NULL,
+	"reason" text,
+	"created_by" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "blocked_domains_domain_unique" UNIQUE("domain")
+);
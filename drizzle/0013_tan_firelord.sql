@@ -0,0 +1,2 @@
+ALTER TABLE "links" ADD COLUMN "org_id" text;--> statement-breakpoint
+CREATE INDEX "links_org_id_idx" ON "links" USING btree ("org_id");
\ No newline at end of file
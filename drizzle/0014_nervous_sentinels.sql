@@ -0,0 +1,15 @@
+CREATE TABLE "custom_domains" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "custom_domains_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"hostname" varchar(253) NOT NULL,
+	"user_id" text NOT NULL,
+	"org_id" text,
+	"verification_token" text NOT NULL,
+	"verified_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "links" DROP CONSTRAINT "links_short_code_unique";--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "domain_id" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "custom_domains_verified_hostname_unique" ON "custom_domains" USING btree ("hostname") WHERE "custom_domains"."verified_at" is not null;--> statement-breakpoint
+ALTER TABLE "links" ADD CONSTRAINT "links_domain_id_custom_domains_id_fk" FOREIGN KEY ("domain_id") REFERENCES "public"."custom_domains"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "links" ADD CONSTRAINT "links_domain_id_short_code_unique" UNIQUE NULLS NOT DISTINCT("domain_id","short_code");
\ No newline at end of file
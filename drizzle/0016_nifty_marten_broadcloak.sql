@@ -0,0 +1,3 @@
+ALTER TABLE "links" ADD COLUMN "og_title" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "og_description" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "og_image_url" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "links" ADD COLUMN "active_from" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "placeholder_url" text;
\ No newline at end of file
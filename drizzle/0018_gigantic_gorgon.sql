@@ -0,0 +1,6 @@
+ALTER TABLE "custom_domains" ADD COLUMN "apple_app_site_association" jsonb;--> statement-breakpoint
+ALTER TABLE "custom_domains" ADD COLUMN "android_asset_links" jsonb;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "ios_app_url" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "ios_store_url" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "android_app_url" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "android_store_url" text;
\ No newline at end of file
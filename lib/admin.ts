@@ -0,0 +1,14 @@
+/**
+ * Checks whether a user may manage site-wide settings such as the domain blocklist
+ * @param userId - The authenticated user's ID from Clerk
+ * @returns true if the user is listed in the comma-separated ADMIN_USER_IDS env var
+ */
+export function isAdmin(userId: string | null | undefined): boolean {
+  if (!userId) {
+    return false;
+  }
+  return (process.env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .includes(userId);
+}
@@ -0,0 +1,36 @@
+import { createHash, randomBytes } from "crypto";
+
+const KEY_PREFIX = "lsk_";
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * Generates a new personal API key
+ * @returns The plain text key, its display prefix and the hash to store
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+/**
+ * Hashes an API key for storage and lookup
+ * @param key - The plain text key
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Extracts a personal API key from a "Bearer" Authorization header
+ * @param header - The Authorization header value
+ * @returns The key, or null if the header is missing or malformed
+ */
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match && match[1].startsWith(KEY_PREFIX) ? match[1] : null;
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import type { Link } from "@/db/schema";
+
+// Set by proxy.ts after the API key has been verified
+export const API_USER_ID_HEADER = "x-api-user-id";
+
+/**
+ * Reads the user ID that proxy.ts resolved from the request's API key
+ * @param request - The incoming API request
+ * @returns The API key owner's user ID, or null if the request wasn't authenticated
+ */
+export function getApiUserId(request: Request): string | null {
+  return request.headers.get(API_USER_ID_HEADER);
+}
+
+/**
+ * Builds a JSON error response for the public API
+ * @param message - Human-readable error message
+ * @param status - HTTP status code
+ */
+export function apiError(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * Parses a JSON request body as an object
+ * @param request - The incoming API request
+ * @returns The parsed body, or null if it isn't a JSON object
+ */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown> | null> {
+  const body: unknown = await request.json().catch(() => null);
+  return body && typeof body === "object" && !Array.isArray(body)
+    ? (body as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Converts an ISO date string from a JSON body into a Date for zod validation
+ * @param value - The raw JSON value
+ * @returns A Date for strings, the value unchanged otherwise
+ */
+export function parseJsonDate(value: unknown) {
+  return typeof value === "string" ? new Date(value) : value;
+}
+
+/**
+ * Serializes a link for API responses, leaving out internal fields
+ * @param link - The link row
+ * @param tags - The link's tag names
+ * @returns The public representation of the link
+ */
+export function toApiLink(link: Link, tags: string[] = []) {
+  return {
+    id: link.id,
+    shortCode: link.shortCode,
+    domainId: link.domainId,
+    url: link.url,
+    activeFrom: link.activeFrom,
+    placeholderUrl: link.placeholderUrl,
+    expiresAt: link.expiresAt,
+    maxClicks: link.maxClicks,
+    clickCount: link.clickCount,
+    hasPassword: link.passwordHash !== null,
+    forcePreview: link.forcePreview,
+    tags,
+    createdAt: link.createdAt,
+    updatedAt: link.updatedAt,
+  };
+}
@@ -0,0 +1,146 @@
+import type { Link } from "@/db/schema";
+import { parseUserAgent } from "@/lib/user-agent";
+
+export type AppPlatform = "ios" | "android";
+
+// App URLs may use the app's own scheme, e.g. myapp://orders/42, but never one that runs in the page
+const BLOCKED_APP_URL_PROTOCOLS = ["javascript:", "data:", "vbscript:", "file:", "blob:", "about:"];
+
+const STORE_HOSTS: Record<AppPlatform, string[]> = {
+  ios: ["apps.apple.com", "itunes.apple.com"],
+  android: ["play.google.com"],
+};
+
+export type AppLinkFields = Pick<Link, "iosAppUrl" | "iosStoreUrl" | "androidAppUrl" | "androidStoreUrl">;
+
+export interface AppLaunchTarget {
+  appUrl: string;
+  // Where to go when the app doesn't open; null falls back to the web destination
+  storeUrl: string | null;
+}
+
+/**
+ * Checks whether a URL can be used to open an app: a custom scheme or an http(s) universal link
+ * @param url - The app URL
+ */
+export function isAllowedAppUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  return !BLOCKED_APP_URL_PROTOCOLS.includes(parsed.protocol);
+}
+
+/**
+ * Checks whether a URL is an https listing on the platform's app store
+ * @param url - The store URL
+ * @param platform - The store's platform
+ */
+export function isAppStoreUrl(url: string, platform: AppPlatform): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  return parsed.protocol === "https:" && STORE_HOSTS[platform].includes(parsed.hostname.toLowerCase());
+}
+
+/**
+ * Works out which app platform a visitor is on, so phones and tablets can be offered the app
+ * @param userAgent - The raw User-Agent header
+ * @returns "ios" or "android", or null for desktops, bots and other systems
+ */
+export function getAppPlatform(userAgent: string | null | undefined): AppPlatform | null {
+  const { os, device } = parseUserAgent(userAgent);
+  if (device !== "mobile" && device !== "tablet") {
+    return null;
+  }
+  if (os === "iOS") {
+    return "ios";
+  }
+  return os === "Android" ? "android" : null;
+}
+
+/**
+ * Picks the app a visitor should be offered before the web destination
+ * @param link - The link's app URLs
+ * @param userAgent - The raw User-Agent header
+ * @returns The app and store URLs for the visitor's platform, or null to redirect as usual
+ */
+export function getAppLaunchTarget(link: AppLinkFields, userAgent: string | null | undefined): AppLaunchTarget | null {
+  const platform = getAppPlatform(userAgent);
+  if (platform === "ios" && link.iosAppUrl) {
+    return { appUrl: link.iosAppUrl, storeUrl: link.iosStoreUrl };
+  }
+  if (platform === "android" && link.androidAppUrl) {
+    return { appUrl: link.androidAppUrl, storeUrl: link.androidStoreUrl };
+  }
+  return null;
+}
+
+/**
+ * Parses an apple-app-site-association file, which must be a JSON object, e.g. {"applinks": {...}}
+ * @param text - The file's contents
+ * @returns The parsed file
+ * @throws If the contents aren't a JSON object
+ */
+export function parseAppleAppSiteAssociation(text: string): Record<string, unknown> {
+  const value: unknown = JSON.parse(text);
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("apple-app-site-association must be a JSON object");
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Parses an assetlinks.json file, which must be a JSON array of statements
+ * @param text - The file's contents
+ * @returns The parsed statements
+ * @throws If the contents aren't a JSON array
+ */
+export function parseAndroidAssetLinks(text: string): unknown[] {
+  const value: unknown = JSON.parse(text);
+  if (!Array.isArray(value)) {
+    throw new Error("assetlinks.json must be a JSON array");
+  }
+  return value;
+}
+
+/**
+ * Parses one of the association files the app's own host serves from the environment. A bad value
+ * is logged and treated as unset, so it only breaks that file and never the routes importing this module.
+ * @param name - The environment variable
+ * @param parse - Parses the file, throwing if it's invalid
+ * @returns The parsed file, or null if the variable is unset or invalid
+ */
+function parseEnvFile<T>(name: string, parse: (text: string) => T): T | null {
+  const text = process.env[name];
+  if (!text) {
+    return null;
+  }
+  try {
+    return parse(text);
+  } catch (error) {
+    console.error(`Ignoring invalid ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetches the apple-app-site-association served from the app's own host
+ * @returns The file from APPLE_APP_SITE_ASSOCIATION, or null when it isn't set or isn't valid
+ */
+export function getAppHostAppleAppSiteAssociation() {
+  return parseEnvFile("APPLE_APP_SITE_ASSOCIATION", parseAppleAppSiteAssociation);
+}
+
+/**
+ * Fetches the assetlinks.json served from the app's own host
+ * @returns The statements from ANDROID_ASSET_LINKS, or null when they aren't set or aren't valid
+ */
+export function getAppHostAndroidAssetLinks() {
+  return parseEnvFile("ANDROID_ASSET_LINKS", parseAndroidAssetLinks);
+}
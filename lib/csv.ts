@@ -0,0 +1,65 @@
+/**
+ * Parses CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF line endings)
+ * @param text - The CSV text
+ * @returns Rows of fields, skipping blank lines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+function escapeCsvField(value: unknown): string {
+  const text = value === null || value === undefined
+    ? ""
+    : value instanceof Date
+      ? value.toISOString()
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows to CSV text
+ * @param header - Column names
+ * @param rows - Row values in the same order as the header
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+}
@@ -0,0 +1,152 @@
+import { randomBytes } from "crypto";
+import { resolveTxt } from "node:dns/promises";
+
+const VERIFICATION_RECORD_PREFIX = "_shortlink-verify";
+const VERIFICATION_VALUE_PREFIX = "shortlink-verify=";
+
+/**
+ * Looks up the TXT records of a DNS name; each record is returned as its chunks
+ */
+export type TxtResolver = (name: string) => Promise<string[][]>;
+
+/**
+ * Creates a resolver that answers from a fixed set of records instead of DNS,
+ * for tests and local development where real records can't be published
+ * @param records - TXT values keyed by record name
+ * @returns The resolver; names without records resolve to nothing
+ */
+export function createStaticTxtResolver(records: Record<string, string[]>): TxtResolver {
+  return async (name) => (records[name.toLowerCase()] ?? []).map((value) => [value]);
+}
+
+const dnsTxtResolver: TxtResolver = async (name) => {
+  try {
+    return await resolveTxt(name);
+  } catch (error) {
+    // A missing record just means the domain isn't verified yet
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOTFOUND" || code === "ENODATA") {
+      return [];
+    }
+    throw error;
+  }
+};
+
+// Chosen on first use, so a bad DNS_TXT_RECORDS can't break every module importing this one
+let txtResolver: TxtResolver | null = null;
+
+/**
+ * Picks the resolver domains are verified with. DNS_TXT_RECORDS, e.g.
+ * {"_shortlink-verify.go.example.com": ["shortlink-verify=..."]}, replaces real lookups.
+ * @returns The resolver to use; real DNS when DNS_TXT_RECORDS is unset or invalid
+ */
+function getTxtResolver(): TxtResolver {
+  if (txtResolver) {
+    return txtResolver;
+  }
+  txtResolver = dnsTxtResolver;
+  const text = process.env.DNS_TXT_RECORDS;
+  if (text) {
+    try {
+      const records: unknown = JSON.parse(text);
+      if (typeof records !== "object" || records === null || Array.isArray(records)) {
+        throw new Error("DNS_TXT_RECORDS must be a JSON object");
+      }
+      txtResolver = createStaticTxtResolver(records as Record<string, string[]>);
+    } catch (error) {
+      console.warn("Ignoring invalid DNS_TXT_RECORDS, using DNS instead:", error);
+    }
+  }
+  return txtResolver;
+}
+
+/**
+ * Replaces the resolver used to verify domains, e.g. with a static one in tests
+ * @param resolver - The resolver to use from now on
+ */
+export function setTxtResolver(resolver: TxtResolver) {
+  txtResolver = resolver;
+}
+
+/**
+ * Generates the token a domain owner publishes to prove ownership
+ * @returns A random URL-safe token
+ */
+export function generateVerificationToken(): string {
+  return randomBytes(16).toString("base64url");
+}
+
+/**
+ * Describes the TXT record that proves ownership of a domain
+ * @param hostname - The custom domain
+ * @param token - The domain's verification token
+ * @returns The record name and the value it must contain
+ */
+export function getVerificationRecord(hostname: string, token: string) {
+  return {
+    name: `${VERIFICATION_RECORD_PREFIX}.${hostname}`,
+    value: `${VERIFICATION_VALUE_PREFIX}${token}`,
+  };
+}
+
+/**
+ * Checks DNS for the TXT record proving ownership of a domain
+ * @param hostname - The custom domain
+ * @param token - The domain's verification token
+ * @returns true if the record is published
+ */
+export async function isDomainOwnershipVerified(hostname: string, token: string): Promise<boolean> {
+  const { name, value } = getVerificationRecord(hostname, token);
+  const records = await getTxtResolver()(name);
+  // Long TXT values may be split into several chunks
+  return records.some((chunks) => chunks.join("") === value);
+}
+
+/**
+ * Strips the port and trailing dot from a Host header
+ * @param host - The Host header value
+ * @returns The lowercase hostname, or null if the header is missing or malformed
+ */
+export function parseHostHeader(host: string | null): string | null {
+  if (!host) {
+    return null;
+  }
+  try {
+    return new URL(`http://${host}`).hostname.replace(/\.$/, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the app's own hosts from the comma-separated APP_HOST env var
+ * @returns The hostnames; empty when APP_HOST is unset
+ */
+export function getAppHosts(): string[] {
+  return (process.env.APP_HOST ?? "")
+    .split(",")
+    .map((value) => parseHostHeader(value.trim()))
+    .filter((value) => value !== null);
+}
+
+/**
+ * Checks whether custom domains can be used, which needs APP_HOST to tell them apart from the app's own host
+ */
+export function areCustomDomainsConfigured(): boolean {
+  return getAppHosts().length > 0;
+}
+
+/**
+ * Works out whether a request arrived on a custom domain rather than the app's own host.
+ * Without APP_HOST, custom domains are off.
+ * @param host - The Host header value
+ * @returns The custom domain's hostname, or null for the app's own host
+ */
+export function getCustomDomainHost(host: string | null): string | null {
+  const appHosts = getAppHosts();
+  const hostname = parseHostHeader(host);
+  if (appHosts.length === 0 || !hostname || appHosts.includes(hostname)) {
+    return null;
+  }
+  return hostname;
+}
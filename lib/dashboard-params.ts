@@ -0,0 +1,75 @@
+import type { LinkSortField, SortOrder } from "@/data/links";
+
+export const LINK_SORT_OPTIONS: { value: LinkSortField; label: string }[] = [
+  { value: "updated", label: "Updated" },
+  { value: "created", label: "Created" },
+  { value: "shortCode", label: "Short code" },
+  { value: "clicks", label: "Clicks" },
+];
+
+export interface DashboardParams {
+  q: string;
+  sort: LinkSortField;
+  order: SortOrder;
+  tags: string[];
+  cursor: string | null;
+}
+
+export type RawSearchParams = Record<string, string | string[] | undefined>;
+
+const DEFAULT_PARAMS: DashboardParams = {
+  q: "",
+  sort: "updated",
+  order: "desc",
+  tags: [],
+  cursor: null,
+};
+
+function first(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Reads the dashboard's list state from URL search params
+ * @param raw - The page's search params
+ * @returns The list state, with defaults for missing or invalid values
+ */
+export function parseDashboardParams(raw: RawSearchParams): DashboardParams {
+  const sort = first(raw.sort);
+  const order = first(raw.order);
+  const tag = raw.tag;
+
+  return {
+    q: first(raw.q)?.trim().slice(0, 200) ?? DEFAULT_PARAMS.q,
+    sort: LINK_SORT_OPTIONS.some((option) => option.value === sort)
+      ? (sort as LinkSortField)
+      : DEFAULT_PARAMS.sort,
+    order: order === "asc" || order === "desc" ? order : DEFAULT_PARAMS.order,
+    tags: (Array.isArray(tag) ? tag : tag ? [tag] : []).map((name) => name.toLowerCase()),
+    cursor: first(raw.cursor) || null,
+  };
+}
+
+/**
+ * Builds a dashboard URL so filtered views can be bookmarked and shared
+ * @param params - The current list state
+ * @param changes - State to change; anything other than the cursor returns to the first page
+ * @returns A Link href object for /dashboard
+ */
+export function dashboardHref(params: DashboardParams, changes: Partial<DashboardParams>) {
+  const next = {
+    ...params,
+    ...changes,
+    cursor: "cursor" in changes ? changes.cursor ?? null : null,
+  };
+
+  // Leave defaults out so URLs stay short
+  const query: Record<string, string | string[]> = {};
+  if (next.q) query.q = next.q;
+  if (next.sort !== DEFAULT_PARAMS.sort) query.sort = next.sort;
+  if (next.order !== DEFAULT_PARAMS.order) query.order = next.order;
+  if (next.tags.length > 0) query.tag = next.tags;
+  if (next.cursor) query.cursor = next.cursor;
+
+  return { pathname: "/dashboard", query };
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from "@/lib/datetime";
+
+function parse(value: string, timeZone?: string) {
+  return fromDateTimeLocalValue(value, timeZone)?.toISOString() ?? null;
+}
+
+describe("fromDateTimeLocalValue", () => {
+  it("reads the wall clock time in the given timezone", () => {
+    assert.equal(parse("2026-07-01T12:00", "America/New_York"), "2026-07-01T16:00:00.000Z");
+    assert.equal(parse("2026-01-15T12:00", "America/New_York"), "2026-01-15T17:00:00.000Z");
+    assert.equal(parse("2026-07-01T12:00", "Asia/Kolkata"), "2026-07-01T06:30:00.000Z");
+    assert.equal(parse("2026-07-01T12:00", "UTC"), "2026-07-01T12:00:00.000Z");
+  });
+
+  it("moves a time skipped by clocks going forward past the jump", () => {
+    // New York goes from 01:59 EST to 03:00 EDT
+    assert.equal(parse("2026-03-08T02:30", "America/New_York"), "2026-03-08T07:30:00.000Z");
+    assert.equal(parse("2026-03-08T02:00", "America/New_York"), "2026-03-08T07:00:00.000Z");
+    // Berlin goes from 01:59 CET to 03:00 CEST
+    assert.equal(parse("2026-03-29T02:30", "Europe/Berlin"), "2026-03-29T01:30:00.000Z");
+  });
+
+  it("reads the times either side of clocks going forward normally", () => {
+    assert.equal(parse("2026-03-08T01:59", "America/New_York"), "2026-03-08T06:59:00.000Z");
+    assert.equal(parse("2026-03-08T03:00", "America/New_York"), "2026-03-08T07:00:00.000Z");
+  });
+
+  it("takes the first of a time repeated by clocks going back", () => {
+    // New York repeats 01:00-01:59, first in EDT and then in EST
+    assert.equal(parse("2026-11-01T01:30", "America/New_York"), "2026-11-01T05:30:00.000Z");
+    assert.equal(parse("2026-10-25T02:30", "Europe/Berlin"), "2026-10-25T00:30:00.000Z");
+  });
+
+  it("reads the times either side of clocks going back normally", () => {
+    assert.equal(parse("2026-11-01T00:59", "America/New_York"), "2026-11-01T04:59:00.000Z");
+    assert.equal(parse("2026-11-01T02:00", "America/New_York"), "2026-11-01T07:00:00.000Z");
+  });
+
+  it("returns null for empty and invalid values", () => {
+    assert.equal(parse("", "America/New_York"), null);
+    assert.equal(parse("not a date", "America/New_York"), null);
+    assert.equal(parse("not a date"), null);
+  });
+
+  it("round-trips with toDateTimeLocalValue outside the repeated hour", () => {
+    for (const iso of ["2026-03-08T07:30:00.000Z", "2026-07-04T13:15:00.000Z", "2026-11-01T07:00:00.000Z"]) {
+      const value = toDateTimeLocalValue(new Date(iso), "America/New_York");
+      assert.equal(parse(value, "America/New_York"), iso);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Works out how far ahead of UTC a timezone's wall clock is at a given moment
+ * @param date - The moment to check, since offsets change with daylight saving time
+ * @param timeZone - An IANA timezone, e.g. "America/New_York"
+ * @returns The offset in milliseconds
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClockAsUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return wallClockAsUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Reads the browser's timezone
+ * @returns An IANA timezone, e.g. "Europe/Berlin"
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Lists the timezones a schedule can be entered in
+ * @returns IANA timezones, with UTC first
+ */
+export function getTimeZoneOptions(): string[] {
+  return ["UTC", ...Intl.supportedValuesOf("timeZone").filter((zone) => zone !== "UTC")];
+}
+
+/**
+ * Formats a date for a datetime-local input
+ * @param date - The date to format
+ * @param timeZone - The timezone to show the wall clock time in; defaults to the browser's
+ * @returns A "YYYY-MM-DDTHH:mm" string, or "" when no date is given
+ */
+export function toDateTimeLocalValue(date: Date | null | undefined, timeZone?: string): string {
+  if (!date) {
+    return "";
+  }
+  const offsetMs = timeZone
+    ? getTimeZoneOffsetMs(date, timeZone)
+    : -date.getTimezoneOffset() * 60 * 1000;
+  const local = new Date(date.getTime() + offsetMs);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Parses a datetime-local input value. Across daylight saving changes it resolves times the way
+ * browsers do: a time skipped when clocks go forward moves forward by the gap (02:30 becomes 03:30),
+ * and a time repeated when clocks go back means the first of the two.
+ * @param value - The input value
+ * @param timeZone - The timezone the wall clock time is in; defaults to the browser's
+ * @returns The parsed date, or null when the input is empty or invalid
+ */
+export function fromDateTimeLocalValue(value: string, timeZone?: string): Date | null {
+  if (!value) {
+    return null;
+  }
+  if (!timeZone) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const wallClockAsUtc = new Date(`${value}Z`).getTime();
+  if (Number.isNaN(wallClockAsUtc)) {
+    return null;
+  }
+  // Offsets only change a few times a year, so the time is in one of the offsets a day either side
+  const offsetBefore = getTimeZoneOffsetMs(new Date(wallClockAsUtc - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffsetMs(new Date(wallClockAsUtc + DAY_MS), timeZone);
+  const withOffsetBefore = new Date(wallClockAsUtc - offsetBefore);
+  const withOffsetAfter = new Date(wallClockAsUtc - offsetAfter);
+  // When both offsets give this wall clock time (clocks went back), the earlier one wins
+  if (getTimeZoneOffsetMs(withOffsetBefore, timeZone) === offsetBefore) {
+    return withOffsetBefore;
+  }
+  if (getTimeZoneOffsetMs(withOffsetAfter, timeZone) === offsetAfter) {
+    return withOffsetAfter;
+  }
+  // Neither does when the time was skipped (clocks went forward); reading it with the offset from
+  // before the change lands the same distance past the jump
+  return withOffsetBefore;
+}
@@ -0,0 +1,23 @@
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Checks whether a database error is a unique constraint violation
+ * @param error - The caught error, possibly wrapped by Drizzle
+ * @param constraint - Optional constraint name to match
+ * @returns true if the error (or its cause) is a unique violation
+ */
+export function isUniqueViolation(error: unknown, constraint?: string): boolean {
+  // Drizzle wraps driver errors, so walk the cause chain
+  let current: unknown = error;
+  while (current instanceof Error) {
+    const { code, constraint: violated } = current as Error & {
+      code?: string;
+      constraint?: string;
+    };
+    if (code === UNIQUE_VIOLATION) {
+      return !constraint || violated === constraint;
+    }
+    current = current.cause;
+  }
+  return false;
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Escapes a value for safe interpolation into HTML text or attributes
+ * @param value - The raw value
+ * @returns The escaped string
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Route handlers can't render the React tree, so interstitial pages share this minimal dark shell
+const PAGE_STYLES = `
+  *{box-sizing:border-box}
+  body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;
+    font-family:ui-sans-serif,system-ui,-apple-system,sans-serif;background:#0a0a0a;color:#fafafa;padding:1rem}
+  main{width:100%;max-width:28rem;border:1px solid #262626;border-radius:.75rem;padding:1.5rem;background:#171717}
+  h1{margin:0 0 .5rem;font-size:1.25rem}
+  p{margin:0 0 1rem;color:#a1a1a1;font-size:.875rem;line-height:1.5}
+  a{color:#fafafa}
+  label{display:block;font-size:.875rem;margin-bottom:.5rem}
+  input{width:100%;height:2.25rem;border:1px solid #333;border-radius:.375rem;background:transparent;color:inherit;padding:0 .75rem;margin-bottom:1rem}
+  button,.button{display:inline-flex;align-items:center;justify-content:center;height:2.25rem;padding:0 1rem;border:0;
+    border-radius:.375rem;background:#fafafa;color:#171717;font-weight:500;font-size:.875rem;cursor:pointer;text-decoration:none}
+  .error{color:#ff6467}
+  .mono{font-family:ui-monospace,monospace;word-break:break-all}
+`;
+
+interface HtmlPageOptions {
+  title: string;
+  // Pre-escaped HTML for the page body
+  body: string;
+  // Pre-escaped HTML appended to <head>, e.g. meta tags
+  head?: string;
+  status?: number;
+  headers?: HeadersInit;
+}
+
+/**
+ * Builds a standalone HTML response for interstitial pages served from route handlers
+ * @param options - Page title, body markup, status and extra headers
+ * @returns The HTML response
+ */
+export function htmlResponse({ title, body, head = "", status = 200, headers }: HtmlPageOptions): NextResponse {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLES}</style>
+${head}
+</head>
+<body><main>${body}</main></body>
+</html>`;
+
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set("Content-Type", "text/html; charset=utf-8");
+  if (!responseHeaders.has("Cache-Control")) {
+    responseHeaders.set("Cache-Control", "no-store");
+  }
+
+  return new NextResponse(html, { status, headers: responseHeaders });
+}
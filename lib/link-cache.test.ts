@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { createMemoryLinkCacheStore, type CachedShortLink } from "@/lib/link-cache";
+
+// Only the identity of an entry matters to the store
+function entry(id: number) {
+  return { link: { id }, rules: [], variants: [] } as unknown as CachedShortLink;
+}
+
+describe("createMemoryLinkCacheStore", () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    mock.method(Date, "now", () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("tells a miss apart from a cached not found", async () => {
+    const store = createMemoryLinkCacheStore();
+    await store.set("/missing", null, 1000);
+
+    assert.equal(await store.get("/unknown"), undefined);
+    assert.equal(await store.get("/missing"), null);
+  });
+
+  it("serves entries until their TTL runs out", async () => {
+    const store = createMemoryLinkCacheStore();
+    const cached = entry(1);
+    await store.set("/abc", cached, 1000);
+    await store.set("/missing", null, 1000);
+
+    now += 999;
+    assert.equal(await store.get("/abc"), cached);
+    assert.equal(await store.get("/missing"), null);
+
+    now += 1;
+    assert.equal(await store.get("/abc"), undefined);
+    assert.equal(await store.get("/missing"), undefined);
+  });
+
+  it("evicts the oldest entries past maxEntries", async () => {
+    const store = createMemoryLinkCacheStore(2);
+    await store.set("/a", entry(1), 1000);
+    await store.set("/b", entry(2), 1000);
+    await store.set("/c", entry(3), 1000);
+
+    assert.equal(await store.get("/a"), undefined);
+    assert.equal((await store.get("/b"))?.link.id, 2);
+    assert.equal((await store.get("/c"))?.link.id, 3);
+  });
+
+  it("keeps recently read entries over older unread ones", async () => {
+    const store = createMemoryLinkCacheStore(2);
+    await store.set("/a", entry(1), 1000);
+    await store.set("/b", entry(2), 1000);
+    await store.get("/a");
+    await store.set("/c", entry(3), 1000);
+
+    assert.equal((await store.get("/a"))?.link.id, 1);
+    assert.equal(await store.get("/b"), undefined);
+  });
+
+  it("refreshes an entry's place and TTL when it's set again", async () => {
+    const store = createMemoryLinkCacheStore(2);
+    await store.set("/a", entry(1), 1000);
+    await store.set("/b", entry(2), 1000);
+    now += 500;
+    await store.set("/a", entry(4), 1000);
+    await store.set("/c", entry(3), 1000);
+
+    assert.equal(await store.get("/b"), undefined);
+    now += 999;
+    assert.equal((await store.get("/a"))?.link.id, 4);
+  });
+
+  it("drops deleted keys", async () => {
+    const store = createMemoryLinkCacheStore();
+    await store.set("/a", entry(1), 1000);
+    await store.set("go.example.com/a", null, 1000);
+    await store.delete(["/a", "go.example.com/a"]);
+
+    assert.equal(await store.get("/a"), undefined);
+    assert.equal(await store.get("go.example.com/a"), undefined);
+  });
+});
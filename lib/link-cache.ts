@@ -0,0 +1,146 @@
+import type { Link, LinkVariant, RedirectRule } from "@/db/schema";
+
+/**
+ * Everything a redirect needs to know about a short code
+ */
+export interface CachedShortLink {
+  link: Link;
+  rules: RedirectRule[];
+  variants: LinkVariant[];
+}
+
+/**
+ * Storage for resolved short codes. A cached null means the code is known not to exist.
+ * Shared stores (e.g. Redis) must serialise the Date fields and revive them on read.
+ */
+export interface LinkCacheStore {
+  // Returns undefined on a miss, so it can be told apart from a cached "not found"
+  get(key: string): Promise<CachedShortLink | null | undefined>;
+  set(key: string, entry: CachedShortLink | null, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+}
+
+// Redirects catch a stale link when they count the click, but pages that count nothing (previews,
+// unlock forms, social cards) and not-found entries can be as stale as the TTL allows
+const LINK_TTL_MS = 60 * 1000;
+// Kept short so a code created on another instance starts working quickly
+const NOT_FOUND_TTL_MS = 10 * 1000;
+const MEMORY_STORE_MAX_ENTRIES = 5_000;
+
+interface MemoryEntry {
+  value: CachedShortLink | null;
+  // Epoch milliseconds after which the entry is ignored
+  expiresAt: number;
+}
+
+/**
+ * Creates an LRU cache kept in process memory. Entries are per server instance, so edits made on
+ * another instance are only seen when a redirect catches them or the TTL runs out; a shared store avoids that.
+ * @param maxEntries - The least recently used entries are evicted past this size
+ * @returns The in-memory store
+ */
+export function createMemoryLinkCacheStore(maxEntries = MEMORY_STORE_MAX_ENTRIES): LinkCacheStore {
+  // Maps iterate in insertion order, so re-inserting on every read keeps the oldest entry first
+  const entries = new Map<string, MemoryEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, entry, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value: entry, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+    async delete(keys) {
+      for (const key of keys) {
+        entries.delete(key);
+      }
+    },
+  };
+}
+
+let store: LinkCacheStore = createMemoryLinkCacheStore();
+
+/**
+ * Replaces the store used for short code lookups, e.g. with a Redis-backed one at startup
+ * @param nextStore - The store to use from now on
+ */
+export function setLinkCacheStore(nextStore: LinkCacheStore) {
+  store = nextStore;
+}
+
+/**
+ * Builds the cache key for a short code on the host it's served from
+ * @param shortCode - The short code
+ * @param customDomain - The custom domain's hostname, or null for the app's own host
+ */
+function cacheKey(shortCode: string, customDomain: string | null) {
+  return `${customDomain ?? ""}/${shortCode}`;
+}
+
+/**
+ * Looks up a short code in the cache
+ * @param shortCode - The short code
+ * @param customDomain - The custom domain's hostname, or null for the app's own host
+ * @returns The cached entry, null if the code is cached as not found, or undefined on a miss
+ */
+export async function getCachedShortLink(
+  shortCode: string,
+  customDomain: string | null
+): Promise<CachedShortLink | null | undefined> {
+  try {
+    return await store.get(cacheKey(shortCode, customDomain));
+  } catch (error) {
+    // A broken cache shouldn't take redirects down with it
+    console.error("Failed to read the link cache:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Caches what a short code resolved to
+ * @param shortCode - The short code
+ * @param customDomain - The custom domain's hostname, or null for the app's own host
+ * @param entry - The live link with its rules and variants, or null if the code doesn't resolve
+ */
+export async function cacheShortLink(
+  shortCode: string,
+  customDomain: string | null,
+  entry: CachedShortLink | null
+) {
+  try {
+    await store.set(cacheKey(shortCode, customDomain), entry, entry ? LINK_TTL_MS : NOT_FOUND_TTL_MS);
+  } catch (error) {
+    console.error("Failed to write the link cache:", error);
+  }
+}
+
+/**
+ * Drops cached lookups so the next request reads the database. Unlike reads, failures
+ * are thrown, as a stale entry would keep serving an edited or deleted link.
+ * @param entries - The short codes to drop, with the custom domain each is served from
+ */
+export async function invalidateCachedLinks(
+  entries: { shortCode: string; customDomain: string | null }[]
+) {
+  if (entries.length === 0) {
+    return;
+  }
+  await store.delete(entries.map((entry) => cacheKey(entry.shortCode, entry.customDomain)));
+}
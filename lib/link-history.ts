@@ -0,0 +1,99 @@
+import type { Link, LinkHistoryAction, LinkSnapshot } from "@/db/schema";
+
+export const LINK_HISTORY_ACTION_LABELS: Record<LinkHistoryAction, string> = {
+  create: "Created",
+  update: "Edited",
+  revert: "Reverted",
+  delete: "Moved to trash",
+  restore: "Restored",
+};
+
+const SNAPSHOT_FIELD_LABELS: Record<keyof LinkSnapshot, string> = {
+  url: "URL",
+  shortCode: "Short code",
+  activeFrom: "Goes live",
+  placeholderUrl: "Placeholder URL",
+  expiresAt: "Expires",
+  maxClicks: "Max clicks",
+  hasPassword: "Password",
+  forcePreview: "Preview page",
+};
+
+export interface SnapshotChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Captures the editable fields of a link for its history
+ * @param link - The link's current values
+ * @returns The snapshot, leaving out the password hash itself
+ */
+export function toLinkSnapshot(
+  link: Pick<
+    Link,
+    "url" | "shortCode" | "activeFrom" | "placeholderUrl" | "expiresAt" | "maxClicks" | "passwordHash" | "forcePreview"
+  >
+): LinkSnapshot {
+  return {
+    url: link.url,
+    shortCode: link.shortCode,
+    activeFrom: link.activeFrom?.toISOString() ?? null,
+    placeholderUrl: link.placeholderUrl,
+    expiresAt: link.expiresAt?.toISOString() ?? null,
+    maxClicks: link.maxClicks,
+    hasPassword: link.passwordHash !== null,
+    forcePreview: link.forcePreview,
+  };
+}
+
+/**
+ * Checks whether two snapshots describe the same link state
+ */
+export function snapshotsEqual(a: LinkSnapshot, b: LinkSnapshot): boolean {
+  return (Object.keys(SNAPSHOT_FIELD_LABELS) as (keyof LinkSnapshot)[]).every(
+    (field) => (a[field] ?? null) === (b[field] ?? null)
+  );
+}
+
+function formatSnapshotValue(field: keyof LinkSnapshot, value: LinkSnapshot[keyof LinkSnapshot]) {
+  if (field === "activeFrom") {
+    return value ? new Date(value as string).toLocaleString() : "Immediately";
+  }
+  if (field === "placeholderUrl") {
+    return value ? String(value) : "None";
+  }
+  if (field === "expiresAt") {
+    return value ? new Date(value as string).toLocaleString() : "Never";
+  }
+  if (field === "maxClicks") {
+    return value === null ? "Unlimited" : String(value);
+  }
+  if (field === "hasPassword") {
+    return value ? "Set" : "None";
+  }
+  if (field === "forcePreview") {
+    return value ? "On" : "Off";
+  }
+  return String(value);
+}
+
+/**
+ * Lists the fields that differ between two snapshots, formatted for display
+ * @param before - The state before the change, or null for a newly created link
+ * @param after - The state after the change, or null for a deleted link
+ * @returns One entry per changed field, with empty strings for missing sides
+ */
+export function describeSnapshotChanges(
+  before: LinkSnapshot | null,
+  after: LinkSnapshot | null
+): SnapshotChange[] {
+  return (Object.keys(SNAPSHOT_FIELD_LABELS) as (keyof LinkSnapshot)[])
+    .filter((field) => !before || !after || (before[field] ?? null) !== (after[field] ?? null))
+    .map((field) => ({
+      label: SNAPSHOT_FIELD_LABELS[field],
+      from: before ? formatSnapshotValue(field, before[field]) : "",
+      to: after ? formatSnapshotValue(field, after[field]) : "",
+    }));
+}
@@ -0,0 +1,44 @@
+import { parseCsv } from "@/lib/csv";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ImportRow {
+  // 1-based row number in the uploaded file (blank lines skipped), for error messages
+  line: number;
+  url: string;
+  shortCode: string;
+}
+
+export interface ImportPreviewRow extends ImportRow {
+  error: string | null;
+}
+
+/**
+ * Parses an import CSV of url,shortCode rows
+ * @param text - The CSV text, with or without a header row
+ * @returns The rows to import; a header row, if present, decides the column order
+ */
+export function parseImportCsv(text: string): ImportRow[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    return [];
+  }
+
+  let urlIndex = 0;
+  let shortCodeIndex = 1;
+  let firstDataRow = 0;
+
+  // Exports include extra columns, so find url/shortCode by name when there's a header
+  const header = rows[0].map((cell) => cell.trim().toLowerCase().replace(/[\s_-]/g, ""));
+  if (header.includes("url")) {
+    urlIndex = header.indexOf("url");
+    shortCodeIndex = header.indexOf("shortcode");
+    firstDataRow = 1;
+  }
+
+  return rows.slice(firstDataRow).map((fields, index) => ({
+    line: firstDataRow + index + 1,
+    url: (fields[urlIndex] ?? "").trim(),
+    shortCode: shortCodeIndex >= 0 ? (fields[shortCodeIndex] ?? "").trim() : "",
+  }));
+}
@@ -0,0 +1,167 @@
+import type { Link } from "@/db/schema";
+import type { AppLaunchTarget } from "@/lib/app-links";
+import { escapeHtml, htmlResponse } from "@/lib/html";
+import { getUserDisplayNames } from "@/lib/users";
+
+// Appending this to a short code, e.g. /l/abc+, shows the preview instead of redirecting
+export const PREVIEW_SUFFIX = "+";
+
+const CREATED_AT_FORMAT = new Intl.DateTimeFormat("en", { dateStyle: "long", timeZone: "UTC" });
+
+/**
+ * Renders the page shown for links that expired or reached their click limit
+ * @param shortCode - The link's short code
+ * @returns The HTML response with status 410
+ */
+export function linkExpiredResponse(shortCode: string) {
+  return htmlResponse({
+    title: "Link expired",
+    status: 410,
+    body: `<h1>Link expired</h1>
+<p>The short link <span class="mono">/${escapeHtml(shortCode)}</span> has expired or reached its click limit and is no longer available.</p>`,
+  });
+}
+
+const GO_LIVE_FORMAT = new Intl.DateTimeFormat("en", {
+  dateStyle: "long",
+  timeStyle: "short",
+  timeZone: "UTC",
+});
+
+/**
+ * Renders the page shown for scheduled links that haven't gone live yet
+ * @param shortCode - The link's short code
+ * @param activeFrom - When the link goes live
+ * @returns The HTML response, with Retry-After set to the go-live time
+ */
+export function linkComingSoonResponse(shortCode: string, activeFrom: Date) {
+  const retryAfter = Math.max(1, Math.ceil((activeFrom.getTime() - Date.now()) / 1000));
+  return htmlResponse({
+    title: "Coming soon",
+    headers: { "Retry-After": String(retryAfter) },
+    body: `<h1>Coming soon</h1>
+<p>The short link <span class="mono">/${escapeHtml(shortCode)}</span> isn't live yet.</p>
+<p>It goes live on <time datetime="${activeFrom.toISOString()}">${escapeHtml(GO_LIVE_FORMAT.format(activeFrom))} UTC</time>.</p>`,
+  });
+}
+
+/**
+ * Renders the preview page describing where a short link goes, without counting a click
+ * @param link - The link being previewed
+ * @param hasAlternateDestinations - Whether redirect rules or variants can send visitors elsewhere
+ * @param shortPath - The path the link is served from on the current host, see getShortPath
+ * @returns The HTML response
+ */
+export async function linkPreviewResponse(link: Link, hasAlternateDestinations: boolean, shortPath: string) {
+  const owner = (await getUserDisplayNames([link.userId])).get(link.userId);
+  const details = [
+    `Created by ${escapeHtml(owner ?? "an unknown user")}`,
+    `Created on ${escapeHtml(CREATED_AT_FORMAT.format(link.createdAt))}`,
+  ];
+
+  // The destination of a protected link stays hidden until it's unlocked
+  if (link.passwordHash) {
+    return htmlResponse({
+      title: "Link preview",
+      body: `<h1>Link preview</h1>
+<p>The short link <span class="mono">/${escapeHtml(link.shortCode)}</span> is password protected, so its destination is hidden.</p>
+<p>${details.join("<br>")}</p>
+<a class="button" href="${shortPath}">Continue</a>`,
+    });
+  }
+
+  const domain = new URL(link.url).hostname;
+  return htmlResponse({
+    title: "Link preview",
+    body: `<h1>Link preview</h1>
+<p>The short link <span class="mono">/${escapeHtml(link.shortCode)}</span> goes to:</p>
+<p class="mono">${escapeHtml(link.url)}</p>
+<p>Domain: <span class="mono">${escapeHtml(domain)}</span><br>${details.join("<br>")}</p>
+${hasAlternateDestinations ? "<p>Some visitors may be sent to a different page depending on their device, language or a split test.</p>" : ""}
+<form method="post" action="${shortPath}">
+<button type="submit">Continue to ${escapeHtml(domain)}</button>
+</form>`,
+  });
+}
+
+/**
+ * Checks whether the owner set up a social preview card for a link
+ * @param link - The link being visited
+ */
+export function hasSocialPreview(link: Pick<Link, "ogTitle" | "ogDescription" | "ogImageUrl">): boolean {
+  return !!(link.ogTitle || link.ogDescription || link.ogImageUrl);
+}
+
+/**
+ * Renders the page served to link-unfurling crawlers, carrying the owner's Open Graph and
+ * Twitter card tags. The destination isn't included, so protected links stay protected.
+ * @param link - The link being unfurled, with a social preview set
+ * @param shortUrl - The absolute short URL, used as the card's canonical URL
+ * @returns The HTML response
+ */
+export function linkSocialCardResponse(link: Link, shortUrl: string) {
+  const title = link.ogTitle ?? shortUrl;
+  const tags: [string, string, string | null][] = [
+    ["property", "og:type", "website"],
+    ["property", "og:url", shortUrl],
+    ["property", "og:title", title],
+    ["property", "og:description", link.ogDescription],
+    ["property", "og:image", link.ogImageUrl],
+    ["name", "twitter:card", link.ogImageUrl ? "summary_large_image" : "summary"],
+    ["name", "twitter:title", title],
+    ["name", "twitter:description", link.ogDescription],
+    ["name", "twitter:image", link.ogImageUrl],
+  ];
+  return htmlResponse({
+    title,
+    head: tags
+      .filter(([, , content]) => content)
+      .map(([attribute, key, content]) => `<meta ${attribute}="${key}" content="${escapeHtml(content!)}">`)
+      .join("\n"),
+    body: `<h1>${escapeHtml(title)}</h1>
+${link.ogDescription ? `<p>${escapeHtml(link.ogDescription)}</p>` : ""}
+<a class="button" href="${escapeHtml(shortUrl)}">Open link</a>`,
+    // Unfurlers cache cards themselves, and edits should show up on the next paste
+    headers: { "Cache-Control": "no-cache" },
+  });
+}
+
+// How long the launcher waits for the app to open before falling back
+const APP_LAUNCH_TIMEOUT_MS = 1500;
+
+/**
+ * Serialises a value for an inline script, so it can't close the <script> element
+ */
+function toScriptLiteral(value: string): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+/**
+ * Renders the page mobile visitors get for links with an app: it tries to open the app, then
+ * falls back to the store listing, or to the web destination when there's no store URL.
+ * Buttons cover browsers that block opening apps without a tap.
+ * @param target - The app URL and store URL for the visitor's platform
+ * @param destination - The web destination the visitor would otherwise be redirected to
+ * @returns The HTML response
+ */
+export function linkAppLauncherResponse(target: AppLaunchTarget, destination: string) {
+  const fallbackUrl = target.storeUrl ?? destination;
+  return htmlResponse({
+    title: "Opening the app",
+    body: `<h1>Opening the app…</h1>
+<p>If nothing happens, open it yourself or continue in your browser.</p>
+<p><a class="button" href="${escapeHtml(target.appUrl)}">Open the app</a></p>
+${target.storeUrl ? `<p><a href="${escapeHtml(target.storeUrl)}">Get the app</a></p>` : ""}
+<p><a href="${escapeHtml(destination)}">Continue in your browser</a></p>
+<script>
+(function () {
+  var fallback = setTimeout(function () { location.replace(${toScriptLiteral(fallbackUrl)}); }, ${APP_LAUNCH_TIMEOUT_MS});
+  // The page is hidden once the app opens, so the fallback must not follow it
+  document.addEventListener("visibilitychange", function () {
+    if (document.hidden) clearTimeout(fallback);
+  });
+  location.href = ${toScriptLiteral(target.appUrl)};
+})();
+</script>`,
+  });
+}
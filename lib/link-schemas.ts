@@ -0,0 +1,305 @@
+import { z } from "zod";
+import { applyUtmParams, type UtmParams } from "@/lib/utm";
+import { isAllowedAppUrl, isAppStoreUrl, type AppPlatform } from "@/lib/app-links";
+import { DEVICE_TYPES, OPERATING_SYSTEM_NAMES, type DeviceType } from "@/lib/user-agent";
+
+export const urlSchema = z.string().url("Invalid URL format");
+
+const utmValueSchema = z
+  .string()
+  .trim()
+  .max(200, "UTM values must be at most 200 characters")
+  .optional();
+
+export const utmSchema = z.object({
+  source: utmValueSchema,
+  medium: utmValueSchema,
+  campaign: utmValueSchema,
+  term: utmValueSchema,
+  content: utmValueSchema,
+});
+
+export const shortCodeSchema = z
+  .string()
+  .min(3, "Short code must be at least 3 characters")
+  .max(20, "Short code must be at most 20 characters")
+  .regex(
+    /^[a-zA-Z0-9-_]+$/,
+    "Short code can only contain letters, numbers, hyphens, and underscores"
+  );
+
+const expiresAtSchema = z.date({ error: "Invalid expiry time" }).nullable().optional();
+
+const activeFromSchema = z.date({ error: "Invalid go-live time" }).nullable().optional();
+
+const placeholderUrlSchema = urlSchema.nullable().optional();
+
+/**
+ * Rejects schedules that expire before they go live
+ */
+function scheduleIsOrdered(link: { activeFrom?: Date | null; expiresAt?: Date | null }) {
+  return !link.activeFrom || !link.expiresAt || link.activeFrom < link.expiresAt;
+}
+
+const SCHEDULE_ORDER_ERROR = { message: "The link must go live before it expires", path: ["activeFrom"] };
+
+const maxClicksSchema = z
+  .number()
+  .int("Max clicks must be a whole number")
+  .positive("Max clicks must be at least 1")
+  .nullable()
+  .optional();
+
+const passwordSchema = z
+  .string()
+  .min(4, "Password must be at least 4 characters")
+  .max(128, "Password must be at most 128 characters")
+  .optional();
+
+export const tagsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .min(1, "Tags cannot be empty")
+      .max(32, "Tags must be at most 32 characters")
+      .regex(
+        /^[a-z0-9 _-]+$/,
+        "Tags can only contain letters, numbers, spaces, hyphens, and underscores"
+      )
+  )
+  .max(10, "A link can have at most 10 tags")
+  .transform((names) => Array.from(new Set(names)))
+  .optional();
+
+const linkFieldsSchema = z.object({
+  url: urlSchema,
+  shortCode: shortCodeSchema.optional(),
+  activeFrom: activeFromSchema,
+  placeholderUrl: placeholderUrlSchema,
+  expiresAt: expiresAtSchema.refine(
+    (date) => !date || date > new Date(),
+    "Expiry time must be in the future"
+  ),
+  maxClicks: maxClicksSchema,
+  password: passwordSchema,
+  tags: tagsSchema,
+  utm: utmSchema.optional(),
+  forcePreview: z.boolean().optional(),
+  domainId: z.number().int().positive().optional(),
+});
+
+export const createLinkSchema = linkFieldsSchema.refine(scheduleIsOrdered, SCHEDULE_ORDER_ERROR);
+
+// A link's domain is fixed once it's created
+export const editLinkSchema = linkFieldsSchema
+  .omit({ domainId: true })
+  .extend({
+    id: z.number(),
+    shortCode: shortCodeSchema,
+    // Existing links may already be expired, so past dates are allowed here
+    expiresAt: expiresAtSchema,
+    removePassword: z.boolean().optional(),
+  })
+  .refine(scheduleIsOrdered, SCHEDULE_ORDER_ERROR);
+
+export interface CreateLinkInput {
+  url: string;
+  // Omit or leave blank to auto-generate a short code
+  shortCode?: string;
+  // Omit or null to make the link live straight away
+  activeFrom?: Date | null;
+  // Where visitors go before activeFrom; omit or null for the coming soon page
+  placeholderUrl?: string | null;
+  expiresAt?: Date | null;
+  maxClicks?: number | null;
+  // Omit or leave blank for a public link
+  password?: string;
+  tags?: string[];
+  // Replaces any UTM parameters already in the URL
+  utm?: UtmParams;
+  // Show a preview page before redirecting
+  forcePreview?: boolean;
+  // A verified custom domain to serve the link from; omit for the app's own host
+  domainId?: number;
+}
+
+export interface EditLinkInput {
+  id: number;
+  url: string;
+  shortCode: string;
+  activeFrom?: Date | null;
+  placeholderUrl?: string | null;
+  expiresAt?: Date | null;
+  maxClicks?: number | null;
+  // Omit or leave blank to keep the current password
+  password?: string;
+  removePassword?: boolean;
+  // Omit to keep the current tags
+  tags?: string[];
+  // Replaces any UTM parameters already in the URL
+  utm?: UtmParams;
+  // Omit to keep the current setting
+  forcePreview?: boolean;
+}
+
+/**
+ * Applies UTM parameters to a destination URL and validates the final URL with the same rule
+ * @param url - The destination URL
+ * @param utm - Optional UTM parameters to apply
+ * @returns The zod parse result for the final URL
+ */
+export function parseDestinationUrl(url: string, utm?: UtmParams) {
+  return urlSchema.safeParse(utm ? applyUtmParams(url, utm) : url);
+}
+
+export const utmPresetSchema = utmSchema.extend({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Preset name is required")
+    .max(50, "Preset name must be at most 50 characters"),
+});
+
+export const redirectRuleSchema = z
+  .object({
+    device: z.enum(DEVICE_TYPES, { error: "Unknown device type" }).nullable(),
+    os: z
+      .string()
+      .refine((os) => OPERATING_SYSTEM_NAMES.includes(os), "Unknown operating system")
+      .nullable(),
+    language: z
+      .string()
+      .trim()
+      .max(35, "Language must be at most 35 characters")
+      .regex(/^[a-zA-Z]{2,8}(-[a-zA-Z0-9]{1,8})*$/, "Language must be a tag like en or pt-BR")
+      .nullable(),
+    url: urlSchema,
+  })
+  .refine(
+    (rule) => rule.device || rule.os || rule.language,
+    "Each rule needs at least one condition"
+  );
+
+export const redirectRulesSchema = z
+  .array(redirectRuleSchema)
+  .max(20, "A link can have at most 20 redirect rules");
+
+export interface RedirectRuleInput {
+  // Null matches any visitor
+  device: DeviceType | null;
+  os: string | null;
+  language: string | null;
+  url: string;
+}
+
+export const linkVariantsSchema = z
+  .array(
+    z.object({
+      id: z.number().int().optional(),
+      url: urlSchema,
+      weight: z
+        .number()
+        .int("Weights must be whole percentages")
+        .min(1, "Weights must be at least 1%")
+        .max(100, "Weights must be at most 100%"),
+    })
+  )
+  .max(10, "A link can have at most 10 variants")
+  .refine(
+    (variants) => variants.length === 0 || variants.length >= 2,
+    "A split test needs at least two variants"
+  )
+  .refine(
+    (variants) =>
+      variants.length === 0 || variants.reduce((sum, variant) => sum + variant.weight, 0) === 100,
+    "Variant weights must add up to 100%"
+  );
+
+export interface LinkVariantInput {
+  // Set for variants that already exist, so their click history is kept
+  id?: number;
+  url: string;
+  weight: number;
+}
+
+// Blank fields are stored as null, leaving that tag out of the card
+const blankToNull = (value: string) => value || null;
+
+export const socialPreviewSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .max(100, "Title must be at most 100 characters")
+    .transform(blankToNull),
+  description: z
+    .string()
+    .trim()
+    .max(300, "Description must be at most 300 characters")
+    .transform(blankToNull),
+  imageUrl: z
+    .string()
+    .trim()
+    .max(2048, "Image URL must be at most 2048 characters")
+    .refine(
+      (url) => !url || (urlSchema.safeParse(url).success && /^https?:\/\//i.test(url)),
+      "Image URL must be an http or https URL"
+    )
+    .transform(blankToNull),
+});
+
+export interface SocialPreviewInput {
+  // Leave all three blank to let crawlers follow the redirect as before
+  title: string;
+  description: string;
+  imageUrl: string;
+}
+
+const appUrlSchema = (label: string) =>
+  z
+    .string()
+    .trim()
+    .max(2048, `${label} must be at most 2048 characters`)
+    .refine(
+      (url) => !url || isAllowedAppUrl(url),
+      `${label} must be an app link like myapp://path or https://app.example.com/path`
+    )
+    .transform(blankToNull);
+
+const storeUrlSchema = (label: string, platform: AppPlatform, example: string) =>
+  z
+    .string()
+    .trim()
+    .max(2048, `${label} must be at most 2048 characters`)
+    .refine((url) => !url || isAppStoreUrl(url, platform), `${label} must be a listing like ${example}`)
+    .transform(blankToNull);
+
+export const appLinksSchema = z
+  .object({
+    iosAppUrl: appUrlSchema("iOS app link"),
+    iosStoreUrl: storeUrlSchema("App Store URL", "ios", "https://apps.apple.com/app/id123456789"),
+    androidAppUrl: appUrlSchema("Android app link"),
+    androidStoreUrl: storeUrlSchema(
+      "Play Store URL",
+      "android",
+      "https://play.google.com/store/apps/details?id=com.example.app"
+    ),
+  })
+  // Store listings are only offered when opening the app fails, so they need an app link to try
+  .refine((links) => !links.iosStoreUrl || links.iosAppUrl, {
+    message: "Add an iOS app link to fall back to the App Store from",
+    path: ["iosAppUrl"],
+  })
+  .refine((links) => !links.androidStoreUrl || links.androidAppUrl, {
+    message: "Add an Android app link to fall back to the Play Store from",
+    path: ["androidAppUrl"],
+  });
+
+export interface AppLinksInput {
+  // Leave a platform's app link blank to redirect its visitors straight to the destination
+  iosAppUrl: string;
+  iosStoreUrl: string;
+  androidAppUrl: string;
+  androidStoreUrl: string;
+}
@@ -0,0 +1,45 @@
+import type { Link } from "@/db/schema";
+
+export type LinkStatus = "scheduled" | "live" | "expired";
+
+/**
+ * Checks whether a link has passed its expiry time or used up its click allowance
+ * @param link - The link to check
+ * @param now - The time to check against
+ * @returns true if the link should no longer redirect
+ */
+export function isLinkExpired(
+  link: Pick<Link, "expiresAt" | "maxClicks" | "clickCount">,
+  now: Date = new Date()
+): boolean {
+  if (link.expiresAt && link.expiresAt <= now) {
+    return true;
+  }
+  return link.maxClicks !== null && link.clickCount >= link.maxClicks;
+}
+
+/**
+ * Checks whether a link is scheduled to go live later
+ * @param link - The link to check
+ * @param now - The time to check against
+ * @returns true if the link shouldn't redirect to its destination yet
+ */
+export function isLinkScheduled(link: Pick<Link, "activeFrom">, now: Date = new Date()): boolean {
+  return link.activeFrom !== null && link.activeFrom > now;
+}
+
+/**
+ * Works out where a link is in its lifecycle; expiry wins over a schedule that never started
+ * @param link - The link to check
+ * @param now - The time to check against
+ * @returns "scheduled", "live" or "expired"
+ */
+export function getLinkStatus(
+  link: Pick<Link, "activeFrom" | "expiresAt" | "maxClicks" | "clickCount">,
+  now: Date = new Date()
+): LinkStatus {
+  if (isLinkExpired(link, now)) {
+    return "expired";
+  }
+  return isLinkScheduled(link, now) ? "scheduled" : "live";
+}
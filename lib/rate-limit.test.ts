@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { createMemoryRateLimitStore } from "@/lib/rate-limit";
+
+describe("createMemoryRateLimitStore", () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    mock.method(Date, "now", () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("counts requests within a window", async () => {
+    const store = createMemoryRateLimitStore();
+    assert.deepEqual(await store.increment("api:user", 1000), { count: 1, resetAt: now + 1000 });
+    now += 500;
+    assert.deepEqual(await store.increment("api:user", 1000), { count: 2, resetAt: now + 500 });
+    assert.deepEqual(await store.get("api:user"), { count: 2, resetAt: now + 500 });
+  });
+
+  it("keeps separate counters per key", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.increment("api:a", 1000);
+    await store.increment("api:a", 1000);
+    assert.equal((await store.increment("api:b", 1000)).count, 1);
+  });
+
+  it("starts a new window once the old one resets", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.increment("api:user", 1000);
+    await store.increment("api:user", 1000);
+
+    now += 1000;
+    assert.equal(await store.get("api:user"), null);
+    assert.deepEqual(await store.increment("api:user", 1000), { count: 1, resetAt: now + 1000 });
+  });
+
+  it("doesn't let callers change the stored counter", async () => {
+    const store = createMemoryRateLimitStore();
+    const entry = await store.increment("api:user", 1000);
+    entry.count = 100;
+    assert.equal((await store.get("api:user"))?.count, 1);
+  });
+
+  // Winding the clock back shows whether an expired window is still held: a kept one counts again
+  it("keeps expired windows below the sweep size", async () => {
+    const store = createMemoryRateLimitStore(3);
+    await store.increment("api:old", 1000);
+    now += 1000;
+    await store.increment("api:new", 1000);
+
+    now -= 1000;
+    assert.equal((await store.get("api:old"))?.count, 1);
+  });
+
+  it("sweeps expired windows once the sweep size is reached", async () => {
+    const store = createMemoryRateLimitStore(2);
+    await store.increment("api:old", 1000);
+    await store.increment("api:live", 5000);
+    now += 1000;
+    await store.increment("api:new", 1000);
+
+    now -= 1000;
+    assert.equal(await store.get("api:old"), null);
+    assert.equal((await store.get("api:live"))?.count, 1);
+  });
+});
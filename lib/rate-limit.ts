@@ -0,0 +1,205 @@
+import { NextResponse } from "next/server";
+
+export interface RateLimitEntry {
+  count: number;
+  // Epoch milliseconds when the current window ends
+  resetAt: number;
+}
+
+/**
+ * Storage for rate limit counters. Implementations must make increment atomic
+ * so concurrent requests can't slip past the limit, e.g. INCR + PEXPIRE in Redis.
+ */
+export interface RateLimitStore {
+  // Counts a hit, starting a new window of windowMs if the previous one has ended
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  // Reads the current window without counting a hit
+  get(key: string): Promise<RateLimitEntry | null>;
+}
+
+export interface RateLimitRule {
+  // Namespaces the counters so rules sharing an identifier don't collide
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the window resets
+  retryAfter: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const RATE_LIMITS = {
+  // Per user
+  createLink: { name: "create-link", limit: 20, windowMs: MINUTE_MS },
+  dashboardAction: { name: "dashboard-action", limit: 60, windowMs: MINUTE_MS },
+  importLinks: { name: "import-links", limit: 10, windowMs: MINUTE_MS },
+  api: { name: "api", limit: 120, windowMs: MINUTE_MS },
+  // Per IP
+  redirect: { name: "redirect", limit: 120, windowMs: MINUTE_MS },
+  // Unknown short codes are the signature of enumeration, so far fewer are allowed
+  notFound: { name: "not-found", limit: 20, windowMs: 10 * MINUTE_MS },
+} as const satisfies Record<string, RateLimitRule>;
+
+// Expired windows are swept once the map grows past this many keys
+const MEMORY_STORE_SWEEP_SIZE = 10_000;
+
+/**
+ * Creates a fixed-window store kept in process memory. Counters are per server
+ * instance and reset on restart, so multi-instance deployments should plug in a shared store.
+ * @param sweepSize - Expired windows are swept when a new one is opened at this many keys
+ * @returns The in-memory store
+ */
+export function createMemoryRateLimitStore(sweepSize = MEMORY_STORE_SWEEP_SIZE): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>();
+
+  const sweep = (now: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.resetAt <= now) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      let entry = entries.get(key);
+      if (!entry || entry.resetAt <= now) {
+        if (entries.size >= sweepSize) {
+          sweep(now);
+        }
+        entry = { count: 0, resetAt: now + windowMs };
+        entries.set(key, entry);
+      }
+      entry.count++;
+      return { ...entry };
+    },
+    async get(key) {
+      const entry = entries.get(key);
+      return entry && entry.resetAt > Date.now() ? { ...entry } : null;
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replaces the store used for all rate limits, e.g. with a Redis-backed one at startup
+ * @param nextStore - The store to use from now on
+ */
+export function setRateLimitStore(nextStore: RateLimitStore) {
+  store = nextStore;
+}
+
+function toResult(rule: RateLimitRule, entry: RateLimitEntry | null): RateLimitResult {
+  const count = entry?.count ?? 0;
+  return {
+    allowed: count <= rule.limit,
+    limit: rule.limit,
+    remaining: Math.max(0, rule.limit - count),
+    retryAfter: entry ? Math.max(1, Math.ceil((entry.resetAt - Date.now()) / 1000)) : 0,
+  };
+}
+
+/**
+ * Counts a request against a rate limit
+ * @param rule - The limit to apply
+ * @param identifier - Who the limit applies to, e.g. a user ID or IP address
+ * @returns Whether the request is allowed and when the window resets
+ */
+export async function consumeRateLimit(
+  rule: RateLimitRule,
+  identifier: string
+): Promise<RateLimitResult> {
+  const entry = await store.increment(`${rule.name}:${identifier}`, rule.windowMs);
+  return toResult(rule, entry);
+}
+
+/**
+ * Checks a rate limit without counting a request against it
+ * @param rule - The limit to check
+ * @param identifier - Who the limit applies to
+ * @returns allowed is false once the limit has already been used up
+ */
+export async function peekRateLimit(
+  rule: RateLimitRule,
+  identifier: string
+): Promise<RateLimitResult> {
+  const entry = await store.get(`${rule.name}:${identifier}`);
+  const result = toResult(rule, entry);
+  // The next request would be one more than the current count
+  return { ...result, allowed: (entry?.count ?? 0) < rule.limit };
+}
+
+/**
+ * Counts a server action call against the user's rate limit
+ * @param rule - The limit to apply
+ * @param userId - The authenticated user's ID
+ * @returns An error message for the ActionResult if the user is throttled, otherwise null
+ */
+export async function actionRateLimitError(
+  rule: RateLimitRule,
+  userId: string
+): Promise<string | null> {
+  const result = await consumeRateLimit(rule, userId);
+  if (result.allowed) {
+    return null;
+  }
+  return `Too many requests. Please try again in ${result.retryAfter} second${result.retryAfter === 1 ? "" : "s"}.`;
+}
+
+/**
+ * Builds a 429 JSON response with Retry-After and rate limit headers
+ * @param result - The failed rate limit check
+ */
+export function tooManyRequestsResponse(result: RateLimitResult) {
+  return NextResponse.json(
+    { error: "Too many requests" },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(result.retryAfter),
+        "X-RateLimit-Limit": String(result.limit),
+        "X-RateLimit-Remaining": String(result.remaining),
+      },
+    }
+  );
+}
+
+/**
+ * Applies the per-IP limits shared by the public short link routes
+ * @param ip - The visitor's IP address, or null if unknown
+ * @returns A 429 response if the visitor is throttled, otherwise null
+ */
+export async function checkShortLinkRateLimit(ip: string | null) {
+  const identifier = ip ?? "unknown";
+  // Visitors who already hit too many unknown codes are blocked from valid ones too
+  const notFound = await peekRateLimit(RATE_LIMITS.notFound, identifier);
+  if (!notFound.allowed) {
+    return tooManyRequestsResponse(notFound);
+  }
+  const redirect = await consumeRateLimit(RATE_LIMITS.redirect, identifier);
+  return redirect.allowed ? null : tooManyRequestsResponse(redirect);
+}
+
+/**
+ * Builds the response for an unknown short code, counting it against the stricter 404 limit
+ * @param ip - The visitor's IP address, or null if unknown
+ * @returns A 404 response, or 429 once the visitor has hit too many unknown codes
+ */
+export async function shortLinkNotFoundResponse(ip: string | null) {
+  const result = await consumeRateLimit(RATE_LIMITS.notFound, ip ?? "unknown");
+  if (!result.allowed) {
+    return tooManyRequestsResponse(result);
+  }
+  return NextResponse.json(
+    { error: "Link not found" },
+    { status: 404 }
+  );
+}
@@ -0,0 +1,74 @@
+import { parseUserAgent } from "@/lib/user-agent";
+
+export interface RedirectRuleConditions {
+  device: string | null;
+  os: string | null;
+  language: string | null;
+}
+
+interface Visitor {
+  userAgent: string | null;
+  acceptLanguage: string | null;
+}
+
+/**
+ * Parses an Accept-Language header into language tags, most preferred first
+ * @param header - The raw Accept-Language header
+ * @returns Lowercased language tags, skipping wildcards and q=0 entries
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) {
+    return [];
+  }
+
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim().match(/^q=([\d.]+)$/i)?.[1])
+        .find((value) => value !== undefined);
+      return { tag: tag.trim().toLowerCase(), q: q === undefined ? 1 : Number(q), index };
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    // Stable on ties so equal weights keep the header's order
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Checks a rule's language against the visitor's preferred language;
+ * "de" matches "de-AT", while "de-AT" only matches itself
+ */
+function matchesLanguage(ruleLanguage: string, preferred: string | undefined) {
+  if (!preferred) {
+    return false;
+  }
+  const rule = ruleLanguage.toLowerCase();
+  return preferred === rule || preferred.startsWith(`${rule}-`);
+}
+
+/**
+ * Picks the first rule whose conditions all match the visitor
+ * @param rules - The link's rules, in evaluation order
+ * @param visitor - The visitor's User-Agent and Accept-Language headers
+ * @returns The matching rule, or undefined to fall back to the link's URL
+ */
+export function selectRedirectRule<T extends RedirectRuleConditions>(
+  rules: T[],
+  visitor: Visitor
+): T | undefined {
+  if (rules.length === 0) {
+    return undefined;
+  }
+
+  const { device, os } = parseUserAgent(visitor.userAgent);
+  const [preferredLanguage] = parseAcceptLanguage(visitor.acceptLanguage);
+
+  return rules.find(
+    (rule) =>
+      (!rule.device || rule.device === device) &&
+      (!rule.os || rule.os === os) &&
+      (!rule.language || matchesLanguage(rule.language, preferredLanguage))
+  );
+}
@@ -0,0 +1,49 @@
+import { randomInt } from "crypto";
+
+// Excludes look-alike characters (0/O, 1/l/I) so codes are easy to read aloud
+const DEFAULT_ALPHABET = "abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const DEFAULT_LENGTH = 7;
+
+// Generated codes must satisfy the same rules as user-chosen ones
+const MIN_LENGTH = 3;
+const MAX_LENGTH = 20;
+const VALID_ALPHABET = /^[a-zA-Z0-9-_]+$/;
+
+export interface ShortCodeOptions {
+  length?: number;
+  alphabet?: string;
+}
+
+/**
+ * Reads short code generation settings from SHORT_CODE_LENGTH and SHORT_CODE_ALPHABET
+ * @returns The configured length and alphabet, falling back to defaults for invalid values
+ */
+export function getShortCodeConfig(): Required<ShortCodeOptions> {
+  const length = Number(process.env.SHORT_CODE_LENGTH);
+  const alphabet = process.env.SHORT_CODE_ALPHABET;
+
+  return {
+    length:
+      Number.isInteger(length) && length >= MIN_LENGTH && length <= MAX_LENGTH
+        ? length
+        : DEFAULT_LENGTH,
+    alphabet:
+      alphabet && alphabet.length > 1 && VALID_ALPHABET.test(alphabet)
+        ? alphabet
+        : DEFAULT_ALPHABET,
+  };
+}
+
+/**
+ * Generates a cryptographically random short code
+ * @param options - Overrides for the configured length and alphabet
+ * @returns A random short code
+ */
+export function generateShortCode(options: ShortCodeOptions = {}): string {
+  const { length, alphabet } = { ...getShortCodeConfig(), ...options };
+  let code = "";
+  for (let i = 0; i < length; i++) {
+    code += alphabet[randomInt(alphabet.length)];
+  }
+  return code;
+}
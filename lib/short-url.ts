@@ -0,0 +1,22 @@
+/**
+ * Builds the path a short code is served from
+ * @param shortCode - The link's short code
+ * @param onCustomDomain - Whether the link is on a custom domain, which serves codes from the root
+ * @returns The path, e.g. "/l/abc" or "/abc"
+ */
+export function getShortPath(shortCode: string, onCustomDomain = false): string {
+  return `${onCustomDomain ? "" : "/l"}/${encodeURIComponent(shortCode)}`;
+}
+
+/**
+ * Builds the public short URL for a short code
+ * @param shortCode - The link's short code
+ * @param origin - The app's origin, e.g. "https://example.com"
+ * @param customDomain - The hostname of the link's custom domain, if it has one
+ * @returns The absolute short URL
+ */
+export function getShortUrl(shortCode: string, origin: string, customDomain?: string | null): string {
+  return customDomain
+    ? new URL(getShortPath(shortCode, true), `https://${customDomain}`).toString()
+    : new URL(getShortPath(shortCode), origin).toString();
+}
@@ -0,0 +1,12 @@
+/**
+ * Splits a comma-separated tag input into individual tag names
+ * @param value - The raw input, e.g. "marketing, Q3 launch"
+ * @returns Trimmed, lowercased, de-duplicated tag names
+ */
+export function parseTagList(value: string): string[] {
+  const names = value
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name !== "");
+  return Array.from(new Set(names));
+}
@@ -0,0 +1,29 @@
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads how long trashed links are kept from TRASH_RETENTION_DAYS
+ * @returns The retention period in days, falling back to 30 for invalid values
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Works out when a trashed link will be purged
+ * @param deletedAt - When the link was moved to the trash
+ * @returns The time the link becomes eligible for purging
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS);
+}
+
+/**
+ * Works out the cutoff for purging, i.e. links trashed before it have expired
+ * @param now - The current time
+ * @returns The oldest deletion time that is still retained
+ */
+export function getPurgeCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+}
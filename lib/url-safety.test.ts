@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkDestinationUrl, isPrivateHost, type DestinationContext } from "@/lib/url-safety";
+
+const context: DestinationContext = {
+  appHosts: ["sho.rt", "go.sho.rt"],
+  customDomains: ["go.example.com"],
+  blockedDomains: [],
+};
+
+describe("isPrivateHost", () => {
+  it("rejects NAT64 addresses embedding a private IPv4 address", () => {
+    assert.equal(isPrivateHost("[64:ff9b::7f00:1]"), true);
+    assert.equal(isPrivateHost("64:ff9b::10.0.0.1"), true);
+  });
+
+  it("rejects IPv4-compatible addresses embedding a private IPv4 address", () => {
+    assert.equal(isPrivateHost("[::127.0.0.1]"), true);
+    assert.equal(isPrivateHost("::c0a8:101"), true);
+  });
+
+  it("allows embedded public IPv4 addresses", () => {
+    assert.equal(isPrivateHost("[64:ff9b::808:808]"), false);
+    assert.equal(isPrivateHost("[::ffff:8.8.8.8]"), false);
+  });
+});
+
+describe("checkDestinationUrl", () => {
+  it("rejects NAT64 and IPv4-compatible loopback URLs", () => {
+    assert.notEqual(checkDestinationUrl("http://[64:ff9b::7f00:1]/", context), null);
+    assert.notEqual(checkDestinationUrl("http://[::127.0.0.1]/", context), null);
+  });
+
+  it("rejects short links on the app's own host behind doubled slashes", () => {
+    assert.notEqual(checkDestinationUrl("https://sho.rt//l/abc", context), null);
+  });
+
+  it("rejects short links on the app's own host behind an encoded slash", () => {
+    assert.notEqual(checkDestinationUrl("https://sho.rt/l%2Fabc", context), null);
+  });
+
+  it("rejects short links on the app's own host written with a trailing dot", () => {
+    assert.notEqual(checkDestinationUrl("https://sho.rt./l/abc", context), null);
+    assert.notEqual(checkDestinationUrl("https://SHO.RT.:443/l/abc", context), null);
+  });
+
+  it("rejects short links on every host the app is served from", () => {
+    assert.notEqual(checkDestinationUrl("https://go.sho.rt/l/abc", context), null);
+  });
+
+  it("allows other pages on the app's own host", () => {
+    assert.equal(checkDestinationUrl("https://sho.rt/dashboard", context), null);
+    assert.equal(checkDestinationUrl("https://sho.rt/links", context), null);
+  });
+});
@@ -0,0 +1,205 @@
+import { isIP } from "node:net";
+
+const ALLOWED_PROTOCOLS = ["http:", "https:"];
+
+// Names that only resolve inside a local network
+const LOCAL_HOSTNAME_SUFFIXES = [".localhost", ".local", ".internal", ".lan", ".home.arpa"];
+
+// [first address, prefix length] for loopback, private, link-local, shared and reserved ranges
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+export interface BlockedDomainEntry {
+  domain: string;
+  reason: string | null;
+}
+
+export interface DestinationContext {
+  // Hostnames the app itself is served from, e.g. "sho.rt" or "localhost"
+  appHosts: string[];
+  // Verified custom domains, which serve short links from every path
+  customDomains: string[];
+  blockedDomains: BlockedDomainEntry[];
+}
+
+function ipv4ToNumber(address: string) {
+  return address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isPrivateIpv4(address: string) {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([start, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const first = ipv4ToNumber(start);
+    return value >= first && value < first + size;
+  });
+}
+
+// Expands an IPv6 address into its eight 16-bit groups
+function ipv6Groups(address: string): number[] {
+  let normalized = address;
+  // Trailing dotted IPv4, e.g. ::ffff:127.0.0.1
+  const ipv4Match = normalized.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Match) {
+    const value = ipv4ToNumber(ipv4Match[1]);
+    normalized = normalized.slice(0, -ipv4Match[1].length) +
+      `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = normalized.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  return [...headGroups, ...Array(tail === undefined ? 0 : missing).fill("0"), ...tailGroups].map(
+    (group) => parseInt(group, 16)
+  );
+}
+
+function isPrivateIpv6(address: string) {
+  const groups = ipv6Groups(address);
+  // Unspecified (::) and loopback (::1)
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) {
+    return true;
+  }
+  // Addresses embedding an IPv4 address in their last 32 bits inherit the IPv4 rules:
+  // IPv4-mapped ::ffff:0:0/96, IPv4-compatible ::/96 and NAT64 64:ff9b::/96
+  const embedsIpv4 =
+    (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) ||
+    (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0));
+  if (embedsIpv4) {
+    return isPrivateIpv4(`${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`);
+  }
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local fc00::/7
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local fe80::/10
+    (groups[0] & 0xff00) === 0xff00 // Multicast ff00::/8
+  );
+}
+
+/**
+ * Checks whether a hostname points at a loopback, private or otherwise local address
+ * @param hostname - The URL hostname; IPv6 literals may keep their brackets
+ * @returns true for private IP literals and local-only names
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  const ipVersion = isIP(host);
+  if (ipVersion === 4) {
+    return isPrivateIpv4(host);
+  }
+  if (ipVersion === 6) {
+    return isPrivateIpv6(host);
+  }
+  // Single-label names like "intranet" only resolve on a local network
+  return (
+    host === "localhost" ||
+    !host.includes(".") ||
+    LOCAL_HOSTNAME_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  );
+}
+
+/**
+ * Normalises a domain for the blocklist, accepting bare hostnames or full URLs
+ * @param value - The admin's input
+ * @returns The lowercase hostname, or null if it isn't a valid domain
+ */
+export function normalizeDomain(value: string): string | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) {
+    return null;
+  }
+  try {
+    const { hostname } = new URL(trimmed.includes("://") ? trimmed : `http://${trimmed}`);
+    const domain = hostname.replace(/\.$/, "");
+    return domain.includes(".") ? domain : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds the blocklist entry covering a hostname, matching the domain itself and its subdomains
+ * @param hostname - The destination's hostname
+ * @param blockedDomains - The blocklist
+ * @returns The matching entry, or undefined if the host isn't blocked
+ */
+export function findBlockedDomain(
+  hostname: string,
+  blockedDomains: BlockedDomainEntry[]
+): BlockedDomainEntry | undefined {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  return blockedDomains.find(
+    ({ domain }) => host === domain || host.endsWith(`.${domain}`)
+  );
+}
+
+/**
+ * Normalises a URL path the way the server routes it, so encoded or doubled slashes
+ * (/l%2Fabc, //l/abc) can't disguise a short link path
+ * @param pathname - The URL's pathname
+ * @returns The decoded path with runs of slashes collapsed
+ */
+function normalizePath(pathname: string): string {
+  let decoded = pathname;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    // Malformed escapes are left as they are
+  }
+  return decoded.replace(/\/{2,}/g, "/");
+}
+
+/**
+ * Checks that a destination URL is safe to redirect visitors to
+ * @param url - The destination URL, already validated as a URL
+ * @param context - The app's own host, the custom domains and the domain blocklist
+ * @returns A human-readable reason the URL is rejected, or null if it's allowed
+ */
+export function checkDestinationUrl(url: string, context: DestinationContext): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid URL format";
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    return `Only http and https URLs are allowed, not ${parsed.protocol}`;
+  }
+
+  if (isPrivateHost(parsed.hostname)) {
+    return "URLs pointing to private, loopback or local network addresses are not allowed";
+  }
+
+  // Pointing at our own short links creates redirect chains and loops. The server answers
+  // "sho.rt." and "sho.rt:8080" as "sho.rt", so only the bare hostname is compared.
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, "");
+  if (
+    context.appHosts.some((appHost) => appHost.toLowerCase() === hostname) &&
+    /^\/l(\/|$)/.test(normalizePath(parsed.pathname))
+  ) {
+    return "Links can't point to another short link on this site";
+  }
+  if (context.customDomains.includes(hostname)) {
+    return "Links can't point to another short link on this site";
+  }
+
+  const blocked = findBlockedDomain(parsed.hostname, context.blockedDomains);
+  if (blocked) {
+    return blocked.reason
+      ? `The domain ${blocked.domain} is blocked: ${blocked.reason}`
+      : `The domain ${blocked.domain} is blocked`;
+  }
+
+  return null;
+}
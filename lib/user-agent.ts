@@ -0,0 +1,68 @@
+export const DEVICE_TYPES = ["mobile", "tablet", "desktop", "bot"] as const;
+
+export type DeviceType = (typeof DEVICE_TYPES)[number];
+
+export interface ParsedUserAgent {
+  browser: string;
+  os: string;
+  device: DeviceType;
+}
+
+// Order matters: several browsers include the tokens of the ones they're based on
+const BROWSERS: [RegExp, string][] = [
+  [/edg(e|a|ios)?\//i, "Edge"],
+  [/opr\/|opera/i, "Opera"],
+  [/samsungbrowser/i, "Samsung Internet"],
+  [/firefox|fxios/i, "Firefox"],
+  [/chrome|crios|chromium/i, "Chrome"],
+  [/safari/i, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/windows/i, "Windows"],
+  [/iphone|ipad|ipod/i, "iOS"],
+  [/android/i, "Android"],
+  [/cros/i, "ChromeOS"],
+  [/mac os x|macintosh/i, "macOS"],
+  [/linux/i, "Linux"],
+];
+
+export const OPERATING_SYSTEM_NAMES = OPERATING_SYSTEMS.map(([, name]) => name);
+
+const BOT_PATTERN = /bot|crawler|spider|crawling|preview|fetch|curl|wget|headless/i;
+
+// Crawlers that fetch a pasted link to render its preview card in a chat or feed.
+// iMessage identifies itself as facebookexternalhit and Twitterbot together.
+const LINK_UNFURLER_PATTERN =
+  /slackbot|slack-imgproxy|facebookexternalhit|facebot|twitterbot|linkedinbot|discordbot|telegrambot|whatsapp|skypeuripreview|pinterestbot|redditbot|embedly|iframely|mastodon|bluesky|vkshare/i;
+
+/**
+ * Classifies a user agent string into browser, OS and device type
+ * @param userAgent - The raw User-Agent header
+ * @returns The parsed browser, OS and device, using "Unknown" when not recognised
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  const ua = userAgent ?? "";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown";
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown";
+
+  let device: DeviceType = "desktop";
+  if (!ua || BOT_PATTERN.test(ua)) {
+    device = "bot";
+  } else if (/ipad|tablet/i.test(ua) || (/android/i.test(ua) && !/mobile/i.test(ua))) {
+    device = "tablet";
+  } else if (/mobi|iphone|ipod/i.test(ua)) {
+    device = "mobile";
+  }
+
+  return { browser, os, device };
+}
+
+/**
+ * Checks whether a request comes from a crawler that unfurls links into preview cards
+ * @param userAgent - The raw User-Agent header
+ * @returns true for known unfurlers such as Slackbot, Twitterbot or facebookexternalhit
+ */
+export function isLinkUnfurler(userAgent: string | null | undefined): boolean {
+  return !!userAgent && LINK_UNFURLER_PATTERN.test(userAgent);
+}
@@ -0,0 +1,27 @@
+import { clerkClient } from "@clerk/nextjs/server";
+
+/**
+ * Looks up display names for Clerk users
+ * @param userIds - The users' Clerk IDs
+ * @returns A map of user ID to full name or username; users that can't be found are left out
+ */
+export async function getUserDisplayNames(userIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) {
+    return names;
+  }
+  try {
+    const client = await clerkClient();
+    const { data } = await client.users.getUserList({ userId: uniqueIds, limit: uniqueIds.length });
+    for (const user of data) {
+      const name = user.fullName || user.username;
+      if (name) {
+        names.set(user.id, name);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to look up users:", error);
+  }
+  return names;
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyUtmParams, extractUtmParams } from "@/lib/utm";
+
+describe("applyUtmParams", () => {
+  it("adds parameters after the existing query", () => {
+    assert.equal(
+      applyUtmParams("https://example.com/page?ref=home", { source: "news", medium: "email" }),
+      "https://example.com/page?ref=home&utm_source=news&utm_medium=email"
+    );
+  });
+
+  it("replaces existing UTM parameters instead of repeating them", () => {
+    assert.equal(
+      applyUtmParams("https://example.com/?utm_source=old&ref=home", { source: "new" }),
+      "https://example.com/?ref=home&utm_source=new"
+    );
+  });
+
+  it("keeps the fragment after the query, even when it contains a question mark", () => {
+    assert.equal(
+      applyUtmParams("https://example.com/page?ref=home#section?tab=2", { source: "news" }),
+      "https://example.com/page?ref=home&utm_source=news#section?tab=2"
+    );
+    assert.equal(
+      applyUtmParams("https://example.com/page#section?tab=2", { source: "news" }),
+      "https://example.com/page?utm_source=news#section?tab=2"
+    );
+  });
+
+  it("fills an empty query string", () => {
+    assert.equal(
+      applyUtmParams("https://example.com/page?", { campaign: "spring" }),
+      "https://example.com/page?utm_campaign=spring"
+    );
+    assert.equal(applyUtmParams("https://example.com/page?", {}), "https://example.com/page");
+  });
+
+  it("matches encoded keys and keys without a value", () => {
+    assert.equal(
+      applyUtmParams("https://example.com/?utm%5Fsource=old&flag&utm_medium", { source: "new" }),
+      "https://example.com/?flag&utm_source=new"
+    );
+  });
+
+  it("removes parameters set to blank values", () => {
+    assert.equal(
+      applyUtmParams("https://example.com/?utm_source=old&utm_medium=email", {
+        source: "  ",
+        medium: "email",
+      }),
+      "https://example.com/?utm_medium=email"
+    );
+  });
+
+  it("encodes new values but leaves the existing pairs as they were", () => {
+    assert.equal(
+      applyUtmParams("https://example.com/?q=a%20b+c", { campaign: "spring sale&more" }),
+      "https://example.com/?q=a%20b+c&utm_campaign=spring%20sale%26more"
+    );
+  });
+});
+
+describe("extractUtmParams", () => {
+  it("reads decoded values from the query string only", () => {
+    assert.deepEqual(
+      extractUtmParams("https://example.com/?utm_source=news&utm_campaign=spring+sale#utm_medium=x"),
+      { source: "news", campaign: "spring sale" }
+    );
+  });
+
+  it("ignores a query inside the fragment", () => {
+    assert.deepEqual(extractUtmParams("https://example.com/#section?utm_source=news"), {});
+  });
+
+  it("reads encoded keys and keys without a value", () => {
+    assert.deepEqual(extractUtmParams("https://example.com/?utm%5Fsource=news&utm_term"), {
+      source: "news",
+      term: "",
+    });
+  });
+
+  it("keeps malformed values as written", () => {
+    assert.deepEqual(extractUtmParams("https://example.com/?utm_content=100%"), {
+      content: "100%",
+    });
+  });
+
+  it("round-trips with applyUtmParams", () => {
+    const utm = { source: "news", medium: "e mail", content: "a&b=c" };
+    assert.deepEqual(extractUtmParams(applyUtmParams("https://example.com/?ref=1", utm)), utm);
+  });
+});
@@ -0,0 +1,74 @@
+export const UTM_FIELDS = ["source", "medium", "campaign", "term", "content"] as const;
+
+export type UtmField = (typeof UTM_FIELDS)[number];
+export type UtmParams = Partial<Record<UtmField, string>>;
+
+const UTM_KEY_PATTERN = /^utm_(source|medium|campaign|term|content)$/;
+
+function splitUrl(url: string) {
+  const hashIndex = url.indexOf("#");
+  const fragment = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const withoutFragment = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = withoutFragment.indexOf("?");
+  return {
+    base: queryIndex === -1 ? withoutFragment : withoutFragment.slice(0, queryIndex),
+    query: queryIndex === -1 ? "" : withoutFragment.slice(queryIndex + 1),
+    fragment,
+  };
+}
+
+function decodeKey(pair: string) {
+  const key = pair.split("=")[0];
+  try {
+    return decodeURIComponent(key.replace(/\+/g, " "));
+  } catch {
+    return key;
+  }
+}
+
+/**
+ * Reads the UTM parameters already present in a URL
+ * @param url - The destination URL
+ * @returns The UTM values found in the query string
+ */
+export function extractUtmParams(url: string): UtmParams {
+  const utm: UtmParams = {};
+  for (const pair of splitUrl(url).query.split("&")) {
+    const match = decodeKey(pair).match(UTM_KEY_PATTERN);
+    if (match) {
+      const value = pair.slice(pair.indexOf("=") + 1);
+      try {
+        utm[match[1] as UtmField] = pair.includes("=")
+          ? decodeURIComponent(value.replace(/\+/g, " "))
+          : "";
+      } catch {
+        utm[match[1] as UtmField] = value;
+      }
+    }
+  }
+  return utm;
+}
+
+/**
+ * Replaces a URL's UTM parameters, keeping the rest of the query string and the fragment untouched
+ * @param url - The destination URL
+ * @param utm - UTM values to set; blank or missing values remove that parameter
+ * @returns The URL with the UTM parameters applied
+ */
+export function applyUtmParams(url: string, utm: UtmParams): string {
+  const { base, query, fragment } = splitUrl(url);
+
+  // Existing pairs are kept byte-for-byte so their encoding doesn't change
+  const pairs = query
+    .split("&")
+    .filter((pair) => pair !== "" && !UTM_KEY_PATTERN.test(decodeKey(pair)));
+
+  for (const field of UTM_FIELDS) {
+    const value = utm[field]?.trim();
+    if (value) {
+      pairs.push(`utm_${field}=${encodeURIComponent(value)}`);
+    }
+  }
+
+  return `${base}${pairs.length > 0 ? `?${pairs.join("&")}` : ""}${fragment}`;
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chooseVariant, pickWeightedVariant } from "@/lib/variants";
+
+const variants = [
+  { id: 11, weight: 20 },
+  { id: 12, weight: 30 },
+  { id: 13, weight: 50 },
+];
+
+const JUST_BELOW_ONE = 1 - Number.EPSILON;
+
+describe("pickWeightedVariant", () => {
+  it("picks the first variant at 0", () => {
+    assert.equal(pickWeightedVariant(variants, 0)?.id, 11);
+  });
+
+  it("moves to the next variant exactly at each weight edge", () => {
+    assert.equal(pickWeightedVariant(variants, 0.19)?.id, 11);
+    assert.equal(pickWeightedVariant(variants, 0.2)?.id, 12);
+    assert.equal(pickWeightedVariant(variants, 0.49)?.id, 12);
+    assert.equal(pickWeightedVariant(variants, 0.5)?.id, 13);
+  });
+
+  it("picks the last variant just below 1", () => {
+    assert.equal(pickWeightedVariant(variants, JUST_BELOW_ONE)?.id, 13);
+  });
+
+  it("returns undefined without variants", () => {
+    assert.equal(pickWeightedVariant([], 0.5), undefined);
+  });
+});
+
+describe("chooseVariant", () => {
+  it("keeps a visitor on the variant in their cookie", () => {
+    assert.equal(chooseVariant(variants, "11", JUST_BELOW_ONE)?.id, 11);
+  });
+
+  it("picks by weight when the cookie names a variant that was removed", () => {
+    assert.equal(chooseVariant(variants, "10", 0.3)?.id, 12);
+  });
+
+  it("picks by weight when the cookie isn't a variant id at all", () => {
+    assert.equal(chooseVariant(variants, "12abc", 0)?.id, 11);
+    assert.equal(chooseVariant(variants, " 12", 0)?.id, 11);
+    assert.equal(chooseVariant(variants, "", 0.6)?.id, 13);
+  });
+
+  it("returns undefined for a link that isn't split, whatever the cookie says", () => {
+    assert.equal(chooseVariant([], "11", 0.5), undefined);
+  });
+});
@@ -0,0 +1,54 @@
+export const VARIANT_COOKIE_MAX_AGE = 30 * 24 * 60 * 60;
+
+interface WeightedVariant {
+  id: number;
+  weight: number;
+}
+
+/**
+ * Names the cookie that pins a visitor to one of a link's variants
+ * @param linkId - The link's id
+ */
+export function variantCookieName(linkId: number) {
+  return `lv_${linkId}`;
+}
+
+/**
+ * Picks a variant with probability proportional to its weight
+ * @param variants - The link's variants
+ * @param random - Random number in [0, 1), injectable for testing
+ * @returns The chosen variant, or undefined if there are none
+ */
+export function pickWeightedVariant<T extends WeightedVariant>(
+  variants: T[],
+  random = Math.random()
+): T | undefined {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let remaining = random * total;
+  for (const variant of variants) {
+    remaining -= variant.weight;
+    if (remaining < 0) {
+      return variant;
+    }
+  }
+  // Only reached through floating point rounding at the very top of the range
+  return variants.at(-1);
+}
+
+/**
+ * Resolves the variant to send a visitor to, honouring a sticky cookie when it still matches
+ * @param variants - The link's variants
+ * @param cookieValue - The visitor's variant cookie, if sticky variants are enabled
+ * @param random - Random number in [0, 1) for a visitor without a matching cookie, injectable for testing
+ * @returns The chosen variant, or undefined if the link isn't split
+ */
+export function chooseVariant<T extends WeightedVariant>(
+  variants: T[],
+  cookieValue: string | undefined,
+  random = Math.random()
+): T | undefined {
+  const pinned = cookieValue
+    ? variants.find((variant) => String(variant.id) === cookieValue)
+    : undefined;
+  return pinned ?? pickWeightedVariant(variants, random);
+}
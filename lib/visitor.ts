@@ -0,0 +1,31 @@
+import { createHmac } from "crypto";
+import type { NextRequest } from "next/server";
+
+/**
+ * Extracts the client IP from proxy headers
+ * @param request - The incoming request
+ * @returns The client IP address, or null if unknown
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  if (forwardedFor) {
+    return forwardedFor.split(",")[0].trim() || null;
+  }
+  return request.headers.get("x-real-ip");
+}
+
+/**
+ * Hashes an IP address so visitors can be distinguished without storing the raw address.
+ * IP_HASH_SALT is the secret key: a long random string, e.g. from `openssl rand -hex 32`, kept the
+ * same across deploys so hashes stay comparable. Without it nothing is stored, since an unkeyed hash
+ * of an IPv4 address is reversed by trying all 2^32 of them.
+ * @param ip - The IP address to hash
+ * @returns Hex-encoded HMAC-SHA256 keyed with IP_HASH_SALT, or null if IP_HASH_SALT isn't set
+ */
+export function hashIp(ip: string): string | null {
+  const secret = process.env.IP_HASH_SALT;
+  if (!secret) {
+    return null;
+  }
+  return createHmac("sha256", secret).update(ip).digest("hex");
+}
@@ -0,0 +1,19 @@
+import type { WebhookEventType } from "@/db/schema";
+
+// Events endpoints can subscribe to; test events are only ever sent on request
+export const WEBHOOK_EVENT_TYPES = [
+  "link.created",
+  "link.updated",
+  "link.deleted",
+  "link.clicked",
+  "link.expired",
+] as const satisfies readonly WebhookEventType[];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  "link.created": "Link created",
+  "link.updated": "Link edited",
+  "link.deleted": "Link deleted",
+  "link.clicked": "Link clicked",
+  "link.expired": "Link expired",
+  "webhook.test": "Test event",
+};
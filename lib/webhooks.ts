@@ -0,0 +1,250 @@
+import { createHmac, randomBytes } from "crypto";
+import { lookup as dnsLookup } from "node:dns";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import type { LookupFunction } from "node:net";
+import type { Link, WebhookEventType } from "@/db/schema";
+import { isPrivateHost } from "@/lib/url-safety";
+
+// Attempts are spaced 1, 2, 4 ... minutes apart, so the last retry is about four hours after the first
+export const MAX_WEBHOOK_ATTEMPTS = 9;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Response bodies are only kept as a hint in the delivery log
+const MAX_ERROR_LENGTH = 500;
+
+const SECRET_PREFIX = "whsec_";
+
+export interface WebhookPayload {
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookAttemptResult {
+  ok: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+/**
+ * Generates the secret an endpoint uses to check signatures
+ * @returns A random secret, shown to the user once
+ */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Wraps event data in the JSON envelope every webhook shares
+ * @param type - The event type
+ * @param data - The event's data, e.g. { link }
+ * @returns The payload to queue
+ */
+export function buildWebhookPayload(type: WebhookEventType, data: Record<string, unknown>): WebhookPayload {
+  return { type, createdAt: new Date().toISOString(), data };
+}
+
+/**
+ * Builds the data sent with link events; tags and password hashes are left out
+ * @param link - The link the event is about
+ * @returns The event data
+ */
+export function linkEventData(link: Link) {
+  return {
+    link: {
+      id: link.id,
+      shortCode: link.shortCode,
+      domainId: link.domainId,
+      url: link.url,
+      activeFrom: link.activeFrom,
+      expiresAt: link.expiresAt,
+      maxClicks: link.maxClicks,
+      clickCount: link.clickCount,
+      hasPassword: link.passwordHash !== null,
+      createdAt: link.createdAt,
+      updatedAt: link.updatedAt,
+    },
+  };
+}
+
+/**
+ * Signs a webhook body. Receivers recompute the HMAC over "<timestamp>.<body>" and
+ * compare it to the X-Webhook-Signature header, rejecting old timestamps to stop replays.
+ * @param secret - The endpoint's secret
+ * @param timestamp - Unix seconds sent in the X-Webhook-Timestamp header
+ * @param body - The exact JSON body being sent
+ * @returns The signature header value, e.g. "sha256=ab12..."
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Works out when a failed delivery should be retried
+ * @param attempts - The number of attempts made so far
+ * @returns The delay in milliseconds, doubling each time up to a cap
+ */
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Checks that a webhook endpoint URL can be called from the server
+ * @param url - The endpoint URL
+ * @returns A human-readable reason the URL is rejected, or null if it's allowed
+ */
+export function checkWebhookUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid URL format";
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return "Webhook URLs must use http or https";
+  }
+  // Webhooks are sent from our servers, so internal addresses must stay unreachable
+  if (isPrivateHost(parsed.hostname)) {
+    return "Webhook URLs can't point to private, loopback or local network addresses";
+  }
+  return null;
+}
+
+/**
+ * Resolves webhook hostnames like dns.lookup, but fails when any address is private, loopback or
+ * local. Connections use the address checked here, so DNS can't be switched after the check.
+ */
+const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateHost(address))) {
+      callback(
+        Object.assign(
+          new Error(`${hostname} resolves to a private, loopback or local network address`),
+          { code: "EPRIVATEADDRESS" }
+        ),
+        ""
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+interface WebhookResponse {
+  status: number;
+  statusText: string;
+  // The start of the body, at most MAX_ERROR_LENGTH characters
+  text: string;
+}
+
+/**
+ * POSTs a body to a webhook URL without following redirects, connecting only to public addresses
+ * @param url - The endpoint URL, already checked with checkWebhookUrl
+ * @param headers - The request headers
+ * @param body - The JSON body
+ * @returns The response status and the start of its body
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<WebhookResponse> {
+  const request = new URL(url).protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: publicAddressLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          text += chunk;
+          // Only the start of the body is kept, so there's no need to read the rest
+          if (text.length >= MAX_ERROR_LENGTH) {
+            res.destroy();
+          }
+        });
+        res.on("close", () => {
+          resolve({
+            status: res.statusCode ?? 0,
+            statusText: res.statusMessage ?? "",
+            text: text.slice(0, MAX_ERROR_LENGTH),
+          });
+        });
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Sends one webhook delivery attempt
+ * @param url - The endpoint URL
+ * @param secret - The endpoint's signing secret
+ * @param deliveryId - Sent as X-Webhook-Id so receivers can ignore duplicates
+ * @param payload - The queued payload
+ * @returns Whether the endpoint answered with a 2xx status, and what it answered
+ */
+export async function sendWebhook({
+  url,
+  secret,
+  deliveryId,
+  payload,
+}: {
+  url: string;
+  secret: string;
+  deliveryId: number;
+  payload: WebhookPayload;
+}): Promise<WebhookAttemptResult> {
+  // Checked again on every attempt, and nothing is sent to or read from a rejected endpoint
+  const unsafeReason = checkWebhookUrl(url);
+  if (unsafeReason) {
+    return { ok: false, responseStatus: null, error: unsafeReason };
+  }
+
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    // Redirects aren't followed, as they could lead to addresses the checks didn't see
+    const response = await postWebhook(
+      url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "LinkShortener-Webhooks/1.0",
+        "X-Webhook-Id": String(deliveryId),
+        "X-Webhook-Event": payload.type,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookPayload(secret, timestamp, body),
+      },
+      body
+    );
+    if (response.status >= 200 && response.status < 300) {
+      return { ok: true, responseStatus: response.status, error: null };
+    }
+    return {
+      ok: false,
+      responseStatus: response.status,
+      error: response.text || response.statusText || null,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      responseStatus: null,
+      error: error instanceof Error ? error.message : "Request failed",
+    };
+  }
+}
@@ -0,0 +1,111 @@
+export type WorkspaceRole = "owner" | "admin" | "member" | "viewer";
+
+export type LinkPermission = "view" | "create" | "edit" | "delete" | "manageDomains" | "manageWebhooks";
+
+/**
+ * Where the signed-in user is working: their personal links, or the links of their active organization
+ */
+export interface Workspace {
+  userId: string;
+  // Null for the personal workspace
+  orgId: string | null;
+  role: WorkspaceRole;
+}
+
+// Clerk role keys; "org:viewer" is a custom role that has to be created in the Clerk dashboard
+const ORG_ROLES: Record<string, WorkspaceRole> = {
+  "org:admin": "admin",
+  "org:member": "member",
+  "org:viewer": "viewer",
+};
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, LinkPermission[]> = {
+  owner: ["view", "create", "edit", "delete", "manageDomains", "manageWebhooks"],
+  admin: ["view", "create", "edit", "delete", "manageDomains", "manageWebhooks"],
+  member: ["view", "create", "edit"],
+  viewer: ["view"],
+};
+
+const PERMISSION_ERRORS: Record<LinkPermission, string> = {
+  view: "You don't have permission to view links in this workspace",
+  create: "You don't have permission to create links in this workspace",
+  edit: "You don't have permission to edit links in this workspace",
+  delete: "Only workspace admins can delete links",
+  manageDomains: "Only workspace admins can manage custom domains",
+  manageWebhooks: "Only workspace admins can manage webhooks",
+};
+
+/**
+ * Thrown by the data layer when the workspace role doesn't allow an operation
+ */
+export class LinkPermissionError extends Error {
+  constructor(permission: LinkPermission) {
+    super(PERMISSION_ERRORS[permission]);
+    this.name = "LinkPermissionError";
+  }
+}
+
+/**
+ * Builds the workspace for a Clerk session
+ * @param userId - The authenticated user's ID from Clerk
+ * @param orgId - The active organization's ID, if any
+ * @param orgRole - The user's role in the active organization
+ * @returns The workspace; unknown organization roles are treated as read-only
+ */
+export function toWorkspace({
+  userId,
+  orgId,
+  orgRole,
+}: {
+  userId: string;
+  orgId?: string | null;
+  orgRole?: string | null;
+}): Workspace {
+  if (!orgId) {
+    return { userId, orgId: null, role: "owner" };
+  }
+  return { userId, orgId, role: (orgRole && ORG_ROLES[orgRole]) || "viewer" };
+}
+
+/**
+ * Builds the personal workspace of a user, e.g. for API keys which aren't tied to an organization
+ * @param userId - The user's Clerk ID
+ * @returns The personal workspace
+ */
+export function personalWorkspace(userId: string): Workspace {
+  return { userId, orgId: null, role: "owner" };
+}
+
+/**
+ * Identifies who owns the workspace's shared resources such as tags
+ * @param workspace - The workspace
+ * @returns The organization ID, or the user ID for the personal workspace
+ */
+export function workspaceOwnerId(workspace: Workspace): string {
+  return workspace.orgId ?? workspace.userId;
+}
+
+/**
+ * Identifies the workspace a link belongs to, matching workspaceOwnerId, e.g. to route its webhooks
+ * @param link - The link's creator and organization
+ * @returns The organization ID, or the creator's user ID for personal links
+ */
+export function linkOwnerId(link: { userId: string; orgId: string | null }): string {
+  return link.orgId ?? link.userId;
+}
+
+/**
+ * Checks whether the workspace role allows an operation on links
+ */
+export function canManageLinks(workspace: Workspace, permission: LinkPermission): boolean {
+  return ROLE_PERMISSIONS[workspace.role].includes(permission);
+}
+
+/**
+ * Throws a LinkPermissionError unless the workspace role allows an operation on links
+ */
+export function assertLinkPermission(workspace: Workspace, permission: LinkPermission) {
+  if (!canManageLinks(workspace, permission)) {
+    throw new LinkPermissionError(permission);
+  }
+}
@@ -1,6 +1,56 @@
-import { clerkMiddleware } from "@clerk/nextjs/server";
+import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { getActiveApiKeyByHash, touchApiKey } from "@/data/api-keys";
+import { hashApiKey, parseBearerToken } from "@/lib/api-keys";
+import { API_USER_ID_HEADER } from "@/lib/api";
+import { consumeRateLimit, RATE_LIMITS, tooManyRequestsResponse } from "@/lib/rate-limit";
+import { getCustomDomainHost } from "@/lib/custom-domains";
 
-export default clerkMiddleware();
+const isPublicApiRoute = createRouteMatcher(["/api/v1(.*)"]);
+
+export default clerkMiddleware(async (_auth, request, event) => {
+  // Custom domains only serve short links, from the root: go.example.com/launch is /l/launch.
+  // /.well-known stays as is, for the app association files that let apps open those links.
+  if (getCustomDomainHost(request.headers.get("host"))) {
+    const { pathname } = request.nextUrl;
+    if (pathname === "/") {
+      return new NextResponse(null, { status: 404 });
+    }
+    if (pathname.startsWith("/.well-known/")) {
+      return;
+    }
+    return NextResponse.rewrite(new URL(`/l${pathname}`, request.url));
+  }
+
+  if (!isPublicApiRoute(request)) {
+    return;
+  }
+
+  // Never trust a caller-supplied identity header
+  const headers = new Headers(request.headers);
+  headers.delete(API_USER_ID_HEADER);
+
+  const key = parseBearerToken(request.headers.get("authorization"));
+  const apiKey = key ? await getActiveApiKeyByHash(hashApiKey(key)) : null;
+
+  if (!apiKey) {
+    return NextResponse.json(
+      { error: "Invalid or missing API key" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+    );
+  }
+
+  event.waitUntil(touchApiKey(apiKey.id).catch(() => {}));
+
+  // Limits are per user, so splitting traffic across several keys doesn't help
+  const rateLimit = await consumeRateLimit(RATE_LIMITS.api, apiKey.userId);
+  if (!rateLimit.allowed) {
+    return tooManyRequestsResponse(rateLimit);
+  }
+
+  headers.set(API_USER_ID_HEADER, apiKey.userId);
+  return NextResponse.next({ request: { headers } });
+});
 
 export const config = {
   matcher: [